@@ -0,0 +1,18 @@
+const ClientIdKey = 'clientId'
+
+/**
+ * Gets an identifier that stays the same for this browser between visits, so that the server can recognise banned players
+ */
+export function getClientId (): string {
+  let clientId = window.localStorage.getItem(ClientIdKey)
+
+  if (!clientId) {
+    clientId = Array.from(window.crypto.getRandomValues(new Uint8Array(16)))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('')
+
+    window.localStorage.setItem(ClientIdKey, clientId)
+  }
+
+  return clientId
+}
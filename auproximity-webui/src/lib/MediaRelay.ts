@@ -0,0 +1,131 @@
+// Browsers that can record opus into webm can also play it back through media source extensions
+export const RelayMimeType = 'audio/webm;codecs=opus'
+
+// How often a recording is cut into chunks for the server, most of the delay that the relay adds
+const ChunkInterval = 100
+
+// How far playback can fall behind a relayed stream before it skips ahead, and how much played audio is kept
+const MaxLatency = 0.5
+const KeptAudio = 10
+
+/**
+ * Records a stream in chunks for the server to relay, and starts a new recording whenever the server
+ * asks so that listeners who couldn't hear the stream before can play it from the beginning
+ */
+export class RelayRecorder {
+  private stream: MediaStream
+  private onChunk: (data: ArrayBuffer, init: boolean) => void
+  private recorder?: MediaRecorder
+  private sending = Promise.resolve()
+
+  constructor (stream: MediaStream, onChunk: (data: ArrayBuffer, init: boolean) => void) {
+    this.stream = stream
+    this.onChunk = onChunk
+  }
+
+  start () {
+    this.stop()
+
+    const recorder = new MediaRecorder(this.stream, { mimeType: RelayMimeType })
+    let init = true
+
+    recorder.addEventListener('dataavailable', (event: BlobEvent) => {
+      // The last chunk of a stopped recording has nowhere to go
+      if (this.recorder !== recorder || !event.data.size) return
+
+      const first = init
+      init = false
+
+      // Reading a chunk is asynchronous, so chain them to send them in order
+      this.sending = this.sending.then(async () => this.onChunk(await event.data.arrayBuffer(), first))
+    })
+
+    recorder.start(ChunkInterval)
+    this.recorder = recorder
+  }
+
+  stop () {
+    if (this.recorder && this.recorder.state !== 'inactive') this.recorder.stop()
+    this.recorder = undefined
+  }
+}
+
+/**
+ * Plays a relayed stream through an audio element, which can be connected to an audio context like a call's stream
+ */
+export class RelayPlayer {
+  readonly element = new Audio()
+
+  private mediaSource?: MediaSource
+  private sourceBuffer?: SourceBuffer
+  private queue: ArrayBuffer[] = []
+
+  /**
+   * Queues a chunk to be played, the first chunk of a recording replaces the one that was playing
+   */
+  push (data: ArrayBuffer, init: boolean) {
+    if (init) this.restart()
+    if (!this.mediaSource) return
+
+    this.queue.push(data)
+    this.append()
+  }
+
+  destroy () {
+    this.element.pause()
+    URL.revokeObjectURL(this.element.src)
+    this.element.removeAttribute('src')
+    this.mediaSource = undefined
+    this.sourceBuffer = undefined
+    this.queue = []
+  }
+
+  private restart () {
+    this.destroy()
+
+    const mediaSource = new MediaSource()
+
+    mediaSource.addEventListener('sourceopen', () => {
+      if (this.mediaSource !== mediaSource) return
+
+      const sourceBuffer = mediaSource.addSourceBuffer(RelayMimeType)
+      sourceBuffer.mode = 'sequence'
+      sourceBuffer.addEventListener('updateend', () => this.append())
+
+      this.sourceBuffer = sourceBuffer
+      this.append()
+    })
+
+    this.mediaSource = mediaSource
+    this.element.src = URL.createObjectURL(mediaSource)
+    this.element.play().catch(e => console.log('Failed to play a relayed stream: ' + e))
+  }
+
+  private append () {
+    const sourceBuffer = this.sourceBuffer
+    if (!sourceBuffer || sourceBuffer.updating) return
+
+    const buffered = sourceBuffer.buffered
+    if (buffered.length) {
+      const end = buffered.end(buffered.length - 1)
+      if (end - this.element.currentTime > MaxLatency) this.element.currentTime = end - MaxLatency / 2
+
+      // Dropping audio that was already played finishes with another updateend, which appends the rest
+      if (this.element.currentTime - buffered.start(0) > KeptAudio) {
+        sourceBuffer.remove(0, this.element.currentTime - 1)
+        return
+      }
+    }
+
+    const data = this.queue.shift()
+    if (!data) return
+
+    try {
+      sourceBuffer.appendBuffer(data)
+    } catch (e) {
+      // The recording can't be played any more, wait for the next one
+      console.log('Failed to play a relayed stream: ' + e)
+      this.destroy()
+    }
+  }
+}
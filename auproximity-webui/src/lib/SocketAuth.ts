@@ -0,0 +1,13 @@
+import { getClientId } from '@/lib/ClientId'
+
+/**
+ * Sent to the server every time the socket connects, socket.io reads it again on reconnects so the resume token can be filled in later
+ */
+export const socketAuth: { clientId: string; resumeToken?: string } = {
+  clientId: getClientId()
+}
+
+/**
+ * Reasons that socket.io gives for a disconnect that it will reconnect from by itself
+ */
+export const ReconnectingReasons = ['transport close', 'transport error', 'ping timeout']
@@ -9,6 +9,7 @@ import VueSocketIOExt from 'vue-socket.io-extended'
 import { io } from 'socket.io-client'
 import '@fortawesome/fontawesome-free/css/all.min.css'
 import consts from '@/consts'
+import { socketAuth } from '@/lib/SocketAuth'
 
 if (typeof process.env.VUE_APP_SENTRY_DSN !== 'undefined') {
   console.log('Enabling automatic and anonymous error reporting')
@@ -23,7 +24,7 @@ if (typeof process.env.VUE_APP_SENTRY_DSN !== 'undefined') {
 Vue.config.devtools = true
 Vue.config.productionTip = false
 
-Vue.use(VueSocketIOExt, io(consts.SERVER_URL), { store })
+Vue.use(VueSocketIOExt, io(consts.SERVER_URL, { auth: socketAuth }), { store })
 
 new Vue({
   router,
@@ -23,12 +23,18 @@ export interface BepInExBackendModel extends BackendModel {
   token: string;
 }
 
+export interface ReplayBackendModel extends BackendModel {
+  backendType: BackendType.Replay;
+  recording: string;
+}
+
 export enum BackendType {
   NoOp,
   PublicLobby,
   Impostor,
   BepInEx,
-  NodePolus
+  NodePolus,
+  Replay
 }
 
 export enum PublicLobbyRegion {
@@ -36,3 +42,42 @@ export enum PublicLobbyRegion {
   Europe = 'EU',
   Asia = 'AS'
 }
+
+// The part of a game's URL after the backend, which says where the game is for each backend
+export function getRouteRegion (backendModel: BackendModel): string {
+  switch (backendModel.backendType) {
+    case BackendType.PublicLobby:
+      return (backendModel as PublicLobbyBackendModel).region
+    case BackendType.Impostor:
+    case BackendType.NodePolus:
+      return (backendModel as ImpostorBackendModel).ip
+    case BackendType.BepInEx:
+      return (backendModel as BepInExBackendModel).token
+    case BackendType.Replay:
+      return (backendModel as ReplayBackendModel).recording
+    default:
+      return ''
+  }
+}
+
+export function createBackendModel (backendType: BackendType, region: string, gameCode: string): BackendModel {
+  const backendModel: BackendModel = { gameCode: gameCode.toUpperCase(), backendType }
+
+  switch (backendType) {
+    case BackendType.PublicLobby:
+      (backendModel as PublicLobbyBackendModel).region = region as PublicLobbyRegion
+      break
+    case BackendType.Impostor:
+    case BackendType.NodePolus:
+      (backendModel as ImpostorBackendModel).ip = region
+      break
+    case BackendType.BepInEx:
+      (backendModel as BepInExBackendModel).token = region
+      break
+    case BackendType.Replay:
+      (backendModel as ReplayBackendModel).recording = region
+      break
+  }
+
+  return backendModel
+}
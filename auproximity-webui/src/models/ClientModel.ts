@@ -2,31 +2,66 @@ export enum PlayerFlag {
   None = 0,
   IsImpostor = 1,
   IsDead = 2,
-  OnCams = 4
-}
-
-export interface PlayerPose {
-    x: number;
-    y: number;
+  OnCams = 4,
+  OnPASystem = 8
 }
 
 export interface ClientModel {
   uuid: string;
   name: string;
-  position: PlayerPose;
   color: ColorID;
   flags: PlayerFlag;
   ventid: number;
+  camera: number;
+  reconnecting: boolean;
+  radio: boolean;
+  spectator: boolean;
+  hidden: boolean;
+}
+
+export interface SpectatorRequestModel {
+  uuid: string;
+  name: string;
+}
+
+export interface PlayerPoseModel {
+  x: number;
+  y: number;
+}
+
+export interface AudibilityModel {
+  gain: number;
+  pan: {
+    x: number;
+    y: number;
+    z: number;
+  };
+}
+
+export interface PlayerChoiceModel {
+  id: string;
+  name: string;
+  color: ColorID;
+}
+
+export interface ChatMessageModel {
+  uuid?: string;
+  name: string;
+  color: ColorID;
+  message: string;
+  ghost: boolean;
+  sentAt: number;
 }
 
 export interface RemoteStreamModel {
   uuid: string;
-  source: MediaStreamAudioSourceNode;
+  source: AudioNode;
   gainNode: GainNode;
   globalVolumeNode: GainNode;
   volumeNode: GainNode;
   pannerNode: PannerNode;
-  remoteStream: MediaStream;
+  // Streams that come through the server's relay aren't calls, so they don't have one
+  remoteStream?: MediaStream;
   levels: number;
 }
 
@@ -50,3 +85,19 @@ export enum ColorID {
   Cyan = 10,
   Lime = 11
 }
+
+// The colours that players are drawn with in game
+export const PlayerColors: Record<ColorID, string> = {
+  [ColorID.Red]: '#c61111',
+  [ColorID.Blue]: '#132ed2',
+  [ColorID.DarkGreen]: '#11802d',
+  [ColorID.Pink]: '#ee54bb',
+  [ColorID.Orange]: '#f07d0d',
+  [ColorID.Yellow]: '#f6f657',
+  [ColorID.Black]: '#3f474e',
+  [ColorID.White]: '#d7e1f1',
+  [ColorID.Purple]: '#6b2fbc',
+  [ColorID.Brown]: '#71491e',
+  [ColorID.Cyan]: '#38ffdd',
+  [ColorID.Lime]: '#50f039'
+}
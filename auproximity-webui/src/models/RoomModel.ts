@@ -1,5 +1,17 @@
 import { MapID } from '@skeldjs/constant'
 
+export enum AudioRoute {
+  Proximity = 'proximity',
+  Global = 'global',
+  Muted = 'muted'
+}
+
+export enum AudioRole {
+  Alive = 'alive',
+  Dead = 'dead',
+  Impostor = 'impostor'
+}
+
 export interface HostOptions {
   falloff: number;
   falloffVision: boolean;
@@ -7,6 +19,11 @@ export interface HostOptions {
   paSystems: boolean;
   commsSabotage: boolean;
   meetingsCommsSabotage: boolean;
+  impostorRadio: boolean;
+  relay: boolean;
+  verifyNames: boolean;
+  spectatorRoles: boolean;
+  routes: AudioRoutes;
 }
 
 export interface GameSettings {
@@ -24,6 +41,33 @@ export enum GameState {
   Meeting
 }
 
+// How a listener hears a speaker in each game state, by the listener's role and then the speaker's
+export type AudioRoutes = Record<GameState, Record<AudioRole, Record<AudioRole, AudioRoute>>>
+
+// The same routes that the server starts rooms with
+export function defaultAudioRoutes (): AudioRoutes {
+  const { Alive, Dead, Impostor } = AudioRole
+  const { Proximity, Global, Muted } = AudioRoute
+
+  return {
+    [GameState.Lobby]: {
+      [Alive]: { [Alive]: Proximity, [Dead]: Proximity, [Impostor]: Proximity },
+      [Dead]: { [Alive]: Proximity, [Dead]: Proximity, [Impostor]: Proximity },
+      [Impostor]: { [Alive]: Proximity, [Dead]: Proximity, [Impostor]: Proximity }
+    },
+    [GameState.Game]: {
+      [Alive]: { [Alive]: Proximity, [Dead]: Muted, [Impostor]: Proximity },
+      [Dead]: { [Alive]: Proximity, [Dead]: Proximity, [Impostor]: Proximity },
+      [Impostor]: { [Alive]: Proximity, [Dead]: Muted, [Impostor]: Proximity }
+    },
+    [GameState.Meeting]: {
+      [Alive]: { [Alive]: Global, [Dead]: Muted, [Impostor]: Global },
+      [Dead]: { [Alive]: Global, [Dead]: Global, [Impostor]: Global },
+      [Impostor]: { [Alive]: Global, [Dead]: Muted, [Impostor]: Global }
+    }
+  }
+}
+
 export enum GameFlag {
   None = 0,
   CommsSabotaged = 1
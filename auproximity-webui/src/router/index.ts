@@ -1,6 +1,7 @@
 import Vue from 'vue'
 import VueRouter, { RouteConfig } from 'vue-router'
 import Home from '../views/Home.vue'
+import Mix from '../views/Mix.vue'
 
 Vue.use(VueRouter)
 
@@ -10,6 +11,11 @@ const routes: Array<RouteConfig> = [
     name: 'Home',
     component: Home
   },
+  {
+    path: '/mix/:backend/:region/:gamecode',
+    name: 'Mix',
+    component: Mix
+  },
   {
     path: '/:backend/:region/:gamecode',
     name: 'Instant connect',
@@ -2,10 +2,23 @@ import Vue from 'vue'
 import Vuex from 'vuex'
 
 import { BackendModel, BackendType } from '@/models/BackendModel'
-import { ClientModel, ColorID, MyMicModel, PlayerFlag, PlayerPose } from '@/models/ClientModel'
+import {
+  ChatMessageModel,
+  ClientModel,
+  ColorID,
+  MyMicModel,
+  PlayerChoiceModel,
+  PlayerFlag,
+  PlayerPoseModel,
+  SpectatorRequestModel
+} from '@/models/ClientModel'
 
 import { ClientSocketEvents } from '@/models/ClientSocketEvents'
-import { HostOptions, ClientOptions, GameState, GameFlag } from '@/models/RoomModel'
+import { ReconnectingReasons } from '@/lib/SocketAuth'
+import { HostOptions, ClientOptions, GameState, GameFlag, defaultAudioRoutes } from '@/models/RoomModel'
+
+// Older messages are dropped so that a long game doesn't keep growing the chat
+const MaxChatMessages = 100
 
 Vue.config.devtools = true
 Vue.use(Vuex)
@@ -28,13 +41,14 @@ const state: State = {
   me: {
     uuid: '',
     name: '',
-    position: {
-      x: 0,
-      y: 0
-    },
     color: -1,
     flags: PlayerFlag.None,
-    ventid: -1
+    ventid: -1,
+    camera: -1,
+    reconnecting: false,
+    radio: false,
+    spectator: false,
+    hidden: false
   },
   clients: [],
   options: {
@@ -43,14 +57,28 @@ const state: State = {
     colliders: false,
     paSystems: true,
     commsSabotage: true,
-    meetingsCommsSabotage: true
+    meetingsCommsSabotage: true,
+    impostorRadio: false,
+    relay: false,
+    verifyNames: false,
+    spectatorRoles: false,
+    routes: defaultAudioRoutes()
   },
   clientOptions: {
     omniscientGhosts: false
   },
   gameState: GameState.Lobby,
   gameFlags: GameFlag.None,
-  host: ''
+  host: '',
+  verification: {
+    verified: true,
+    color: -1
+  },
+  playerChoices: [],
+  chat: [],
+  positions: {},
+  spectatorRequests: [],
+  perspective: ''
 }
 export default new Vuex.Store({
   state,
@@ -67,16 +95,6 @@ export default new Vuex.Store({
     removeClient (state: State, uuid: string) {
       state.clients = state.clients.filter(c => c.uuid !== uuid)
     },
-    setPosition (state: State, position: PlayerPose) {
-      state.me.position = position
-    },
-    setPositionOf (state: State, payload: { uuid: string; position: PlayerPose }) {
-      const index = state.clients.findIndex(c => c.uuid === payload.uuid)
-
-      if (index !== -1) {
-        state.clients[index].position = payload.position
-      }
-    },
     setVent (state: State, ventid: number) {
       state.me.ventid = ventid
     },
@@ -107,13 +125,52 @@ export default new Vuex.Store({
         state.clients[index].flags = payload.flags
       }
     },
+    setCamera (state: State, camera: number) {
+      state.me.camera = camera
+    },
+    setCameraOf (state: State, payload: { uuid: string; camera: number }) {
+      const index = state.clients.findIndex(c => c.uuid === payload.uuid)
+
+      if (index !== -1) {
+        state.clients[index].camera = payload.camera
+      }
+    },
+    setNameOf (state: State, payload: { uuid: string; name: string }) {
+      const index = state.clients.findIndex(c => c.uuid === payload.uuid)
+
+      if (index !== -1) {
+        state.clients[index].name = payload.name
+      }
+    },
+    setReconnectingOf (state: State, payload: { uuid: string; reconnecting: boolean }) {
+      const index = state.clients.findIndex(c => c.uuid === payload.uuid)
+
+      if (index !== -1) {
+        state.clients[index].reconnecting = payload.reconnecting
+      }
+    },
+    setRadio (state: State, radio: boolean) {
+      state.me.radio = radio
+    },
+    setRadioOf (state: State, payload: { uuid: string; radio: boolean }) {
+      const index = state.clients.findIndex(c => c.uuid === payload.uuid)
+
+      if (index !== -1) {
+        state.clients[index].radio = payload.radio
+      }
+    },
     setJoinedRoom (state: State, payload: boolean) {
       state.joinedRoom = payload
     },
-    setNameAndBackendModel (state: State, payload: { name: string; backendModel: BackendModel }) {
+    setNameAndBackendModel (state: State, payload: { name: string; spectator: boolean; hidden?: boolean; backendModel: BackendModel }) {
       state.me.name = payload.name
+      state.me.spectator = payload.spectator
+      state.me.hidden = !!payload.hidden
       state.backendModel = payload.backendModel
     },
+    setName (state: State, name: string) {
+      state.me.name = name
+    },
     setHost (state: State, payload: { name: string }) {
       state.host = payload.name
     },
@@ -125,14 +182,45 @@ export default new Vuex.Store({
     },
     setGameFlags (state: State, payload: { flags: number }) {
       state.gameFlags = payload.flags
+    },
+    setVerification (state: State, payload: { verified: boolean; color: ColorID }) {
+      state.verification = payload
+    },
+    setPlayerChoices (state: State, players: PlayerChoiceModel[]) {
+      state.playerChoices = players
+    },
+    addChatMessage (state: State, message: ChatMessageModel) {
+      state.chat = [...state.chat, message].slice(-MaxChatMessages)
+    },
+    clearChat (state: State) {
+      state.chat = []
+    },
+    setPositionOf (state: State, payload: { uuid: string; position: PlayerPoseModel }) {
+      state.positions = { ...state.positions, [payload.uuid]: payload.position }
+    },
+    clearPositions (state: State) {
+      state.positions = {}
+    },
+    setSpectatorRequests (state: State, spectators: SpectatorRequestModel[]) {
+      state.spectatorRequests = spectators
+    },
+    setPerspective (state: State, uuid: string) {
+      state.perspective = uuid
     }
   },
   actions: {
     destroyConnection ({ commit }) {
       commit('setUuid', '')
+      commit('setVerification', { verified: true, color: -1 })
+      commit('setPlayerChoices', [])
+      commit('clearChat')
+      commit('clearPositions')
+      commit('setSpectatorRequests', [])
+      commit('setPerspective', '')
       commit('setJoinedRoom', false)
       commit('setNameAndBackendModel', {
         name: '',
+        spectator: false,
         backendModel: {
           gameCode: '',
           backendType: BackendType.NoOp
@@ -142,7 +230,9 @@ export default new Vuex.Store({
     [`socket_${ClientSocketEvents.Error}`] ({ dispatch }, payload: { fatal: boolean }) {
       if (payload.fatal) dispatch('destroyConnection')
     },
-    [`socket_${ClientSocketEvents.Disconnect}`] ({ dispatch }) {
+    [`socket_${ClientSocketEvents.Disconnect}`] ({ dispatch }, reason: string) {
+      // The server keeps our place in the room while socket.io reconnects
+      if (ReconnectingReasons.includes(reason)) return
       dispatch('destroyConnection')
     },
     [`socket_${ClientSocketEvents.SetUuid}`] ({ commit }, uuid: string) {
@@ -152,10 +242,14 @@ export default new Vuex.Store({
       const client: ClientModel = {
         uuid: payload.uuid,
         name: payload.name,
-        position: payload.position,
         color: payload.color,
         flags: payload.flags,
-        ventid: payload.ventid
+        ventid: payload.ventid,
+        camera: payload.camera,
+        reconnecting: false,
+        radio: false,
+        spectator: payload.spectator,
+        hidden: payload.hidden
       }
       commit('addClient', client)
     },
@@ -163,28 +257,25 @@ export default new Vuex.Store({
       const clients: ClientModel[] = payload.map(c => ({
         uuid: c.uuid,
         name: c.name,
-        position: c.position,
         color: c.color,
         flags: c.flags,
-        ventid: c.ventid
+        ventid: c.ventid,
+        camera: c.camera,
+        reconnecting: c.reconnecting,
+        radio: c.radio,
+        spectator: c.spectator,
+        hidden: c.hidden
       }))
       commit('setAllClients', clients)
     },
     [`socket_${ClientSocketEvents.RemoveClient}`] ({ commit }, uuid: string) {
       commit('removeClient', uuid)
     },
-    [`socket_${ClientSocketEvents.SetPositionOf}`] ({ commit, state }, payload: { uuid: string; position: PlayerPose }) {
-      if (payload.uuid === state.me.uuid) {
-        commit('setPosition', payload.position)
-      } else {
-        commit('setPositionOf', { uuid: payload.uuid, position: payload.position })
-      }
-    },
     [`socket_${ClientSocketEvents.SetVentOf}`] ({ commit, state }, payload: { uuid: string; ventid: number }) {
       if (payload.uuid === state.me.uuid) {
         commit('setVent', payload.ventid)
       } else {
-        commit('setVentOf', { uuid: payload.uuid, venstid: payload.ventid })
+        commit('setVentOf', { uuid: payload.uuid, ventid: payload.ventid })
       }
     },
     [`socket_${ClientSocketEvents.SetColorOf}`] ({ commit, state }, payload: { uuid: string; color: ColorID }) {
@@ -212,6 +303,45 @@ export default new Vuex.Store({
       } else {
         commit('setFlagsOf', { uuid: payload.uuid, flags: payload.flags })
       }
+    },
+    [`socket_${ClientSocketEvents.SetVerification}`] ({ commit }, payload: { verified: boolean; color: ColorID }) {
+      commit('setVerification', payload)
+    },
+    [`socket_${ClientSocketEvents.SetNameOf}`] ({ commit, state }, payload: { uuid: string; name: string }) {
+      if (payload.uuid === state.me.uuid) {
+        commit('setName', payload.name)
+      } else {
+        commit('setNameOf', payload)
+      }
+    },
+    [`socket_${ClientSocketEvents.SetPlayerChoices}`] ({ commit }, payload: { players: PlayerChoiceModel[] }) {
+      commit('setPlayerChoices', payload.players)
+    },
+    [`socket_${ClientSocketEvents.Chat}`] ({ commit }, payload: ChatMessageModel) {
+      commit('addChatMessage', payload)
+    },
+    [`socket_${ClientSocketEvents.SetRadioOf}`] ({ commit, state }, payload: { uuid: string; radio: boolean }) {
+      if (payload.uuid === state.me.uuid) {
+        commit('setRadio', payload.radio)
+      } else {
+        commit('setRadioOf', payload)
+      }
+    },
+    [`socket_${ClientSocketEvents.SetSpectatorRequests}`] ({ commit }, payload: { spectators: SpectatorRequestModel[] }) {
+      commit('setSpectatorRequests', payload.spectators)
+    },
+    [`socket_${ClientSocketEvents.SetPositionOf}`] ({ commit }, payload: { uuid: string; position: PlayerPoseModel }) {
+      commit('setPositionOf', payload)
+    },
+    [`socket_${ClientSocketEvents.SetReconnectingOf}`] ({ commit }, payload: { uuid: string; reconnecting: boolean }) {
+      commit('setReconnectingOf', payload)
+    },
+    [`socket_${ClientSocketEvents.SetCameraOf}`] ({ commit, state }, payload: { uuid: string; camera: number }) {
+      if (payload.uuid === state.me.uuid) {
+        commit('setCamera', payload.camera)
+      } else {
+        commit('setCameraOf', { uuid: payload.uuid, camera: payload.camera })
+      }
     }
   },
   modules: {
@@ -235,4 +365,13 @@ export interface State {
   gameState: GameState;
   gameFlags: number;
   host: string;
+  verification: {
+    verified: boolean;
+    color: ColorID;
+  };
+  playerChoices: PlayerChoiceModel[];
+  chat: ChatMessageModel[];
+  positions: { [uuid: string]: PlayerPoseModel };
+  spectatorRequests: SpectatorRequestModel[];
+  perspective: string;
 }
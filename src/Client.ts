@@ -1,17 +1,14 @@
 import { Socket } from "socket.io";
+import { v4 } from "uuid";
+import _ from "lodash";
 
 import { ColorID } from "@skeldjs/constant";
 
-import {
-    BackendModel,
-    BackendType,
-    BepInExBackendModel,
-    ImpostorBackendModel,
-    NodePolusBackendModel,
-    PublicLobbyBackendModel
-} from "./types/models/Backends";
+import { BackendModel } from "./types/models/Backends";
+import { BanSignals, getClientAddress } from "./bans/BanStore";
 
 import {
+    ClientOptions,
     GameSettings,
     HostOptions
 } from "./types/models/ClientOptions";
@@ -21,6 +18,10 @@ import { ClientSocketEvents } from "./types/enums/ClientSocketEvents";
 import { ClientBase } from "./types/ClientBase";
 import Room from "./Room";
 import { state } from "./main";
+import logger from "./util/logger";
+import { RESUME_GRACE_PERIOD, TRUSTED_PROXIES } from "./consts";
+import { MaxRelayChunkSize } from "./MediaRelay";
+import { isValidHostOptions } from "./util/hostOptions";
 import { PlayerFlag } from "./types/enums/PlayerFlags";
 import { GameFlag } from "./types/enums/GameFlags";
 import { GameState } from "./types/enums/GameState";
@@ -31,11 +32,31 @@ export interface PlayerPose {
 }
 
 export interface PlayerModel {
+    id: string;
     name: string;
     position: PlayerPose;
     color: ColorID;
     flags: number;
     ventid: number;
+    camera: number;
+}
+
+export interface ChatMessage {
+    uuid?: string;
+    name: string;
+    color: ColorID;
+    message: string;
+    ghost: boolean;
+    sentAt: number;
+}
+
+export interface Audibility {
+    gain: number;
+    pan: {
+        x: number;
+        y: number;
+        z: number;
+    };
 }
 
 export default class Client implements ClientBase {
@@ -43,80 +64,216 @@ export default class Client implements ClientBase {
     public room?: Room;
 
     public readonly uuid: string;
+    public readonly resumeToken = v4();
+    public reconnecting = false;
+    public verified = false;
+    public verificationColor: ColorID = -1;
+    public playerId?: string;
+    public radio = false;
+    public spectator = false;
+
+    /**
+     * Whether the client is a stream mix, which listens to the game without showing up in it.
+     */
+    public hidden = false;
+
+    /**
+     * The uuid of the client that a spectator hears the game as, or empty to hear everyone.
+     */
+    public perspective = "";
 
     public name: string;
+    public options: ClientOptions = {
+        omniscientGhosts: false
+    };
+
+    private audibilities = new Map<string, Audibility>();
+    private flags = new Map<string, PlayerFlag>();
+    private positions = new Map<string, PlayerPose>();
+    private reconnectTimeout?: NodeJS.Timeout;
 
     constructor(socket: Socket, uuid: string) {
-        this.socket = socket;
         this.uuid = uuid;
         this.name = "";
 
+        this.attachSocket(socket);
+    }
+
+    private attachSocket(socket: Socket) {
+        this.socket = socket;
+
         // Initialize socket events
         this.socket.on(ClientSocketEvents.RemoveClient, async (payload: { uuid: string, ban: boolean }) => {
-            if (this.room && this.room.clients && this.name === this.room.hostname) {
+            if (this.room && this.room.isHost(this)) {
                 const client = this.room.clients.find(member => member.uuid === payload.uuid);
                 if (client) {
                     await this.room.removeClient(client, payload.ban);
+                } else if (this.room.remoteClients.some(member => member.uuid === payload.uuid)) {
+                    this.room.kickRemoteClient(payload.uuid, payload.ban);
                 }
             }
         });
 
+        this.socket.on(ClientSocketEvents.ListBans, async () => {
+            if (this.room && this.room.isHost(this)) {
+                this.room.sendBans(this);
+            }
+        });
+
+        this.socket.on(ClientSocketEvents.Unban, async (payload: { id: string }) => {
+            if (this.room && this.room.isHost(this)) {
+                await this.room.unban(payload.id);
+            }
+        });
+
+        this.socket.on(ClientSocketEvents.ApproveSpectator, async (payload: { uuid: string; approve: boolean }) => {
+            if (this.room && this.room.isHost(this)) {
+                this.room.approveSpectator(payload.uuid, !!payload.approve);
+            }
+        });
+
+        this.socket.on(ClientSocketEvents.SetPerspective, async (payload: { uuid: string }) => {
+            this.room?.setPerspective(this, typeof payload.uuid === "string" ? payload.uuid : "");
+        });
+
+        this.socket.on(ClientSocketEvents.ChoosePlayer, async (payload: { id: string }) => {
+            this.room?.choosePlayer(this, payload.id);
+        });
+
         this.socket.on(ClientSocketEvents.Disconnect, async () => {
+            // A resumed session has already moved on to a new socket.
+            if (this.socket !== socket)
+                return;
+
             await this.handleDisconnect();
         });
 
-        this.socket.on(ClientSocketEvents.JoinRoom, async (payload: { name: string; backendModel: BackendModel }) => {
-            await this.joinRoom(payload.name, payload.backendModel);
+        this.socket.on(ClientSocketEvents.JoinRoom, async (payload: { name: string; backendModel: BackendModel; spectator?: boolean }) => {
+            await this.joinRoom(payload.name, payload.backendModel, !!payload.spectator);
+        });
+
+        this.socket.on(ClientSocketEvents.JoinMix, async (payload: { backendModel: BackendModel; token: string }) => {
+            await this.joinMix(payload.backendModel, payload.token);
         });
 
         this.socket.on(ClientSocketEvents.SetOptions, async (payload: { options: HostOptions }) => {
-            if (this.room && this.name === this.room.hostname) {
+            if (this.room && this.room.isHost(this)) {
+                if (!isValidHostOptions(payload.options)) {
+                    // Put the host's options back to the ones that are still in use.
+                    this.setOptions(this.room.options);
+                    return this.sendError("Those host options aren't valid, they weren't changed.", false);
+                }
+
                 await this.room.setOptions(payload.options);
             }
         });
 
+        this.socket.on(ClientSocketEvents.SetRadio, async (payload: { radio: boolean }) => {
+            this.room?.setRadio(this, !!payload.radio);
+        });
+
+        this.socket.on(ClientSocketEvents.RelayChunk, async (payload: { data: Buffer; init: boolean }) => {
+            if (!Buffer.isBuffer(payload?.data) || payload.data.length > MaxRelayChunkSize)
+                return;
+
+            this.room?.relay.relay(this, payload.data, !!payload.init);
+        });
+
+        this.socket.on(ClientSocketEvents.SetClientOptions, async (payload: { options: ClientOptions }) => {
+            this.options = payload.options;
+            this.room?.updateAudibility(this);
+        });
+
         this.socket.emit(ClientSocketEvents.SetUuid, this.uuid);
+        this.socket.emit(ClientSocketEvents.SetResumeToken, { token: this.resumeToken });
+    }
+
+    /**
+     * Picks up a session that lost its connection from a new socket, keeping the
+     * same uuid and room so that nobody else sees the client leave.
+     */
+    async resume(socket: Socket): Promise<void> {
+        if (this.reconnectTimeout) {
+            clearTimeout(this.reconnectTimeout);
+            this.reconnectTimeout = undefined;
+        }
+
+        // Nothing that was sent while disconnected arrived, so the room sends everything again.
+        this.audibilities.clear();
+        this.flags.clear();
+        this.positions.clear();
+
+        this.attachSocket(socket);
+
+        if (this.room) {
+            this.room.resumeClient(this);
+        } else {
+            this.reconnecting = false;
+            this.sendError("The game was closed while you were reconnecting.", true);
+        }
     }
 
-    async joinRoom(name: string, backendModel: BackendModel): Promise<void> {
+    async joinRoom(name: string, backendModel: BackendModel, spectator = false, hidden = false): Promise<void> {
         if (this.room) {
             await this.leaveRoom();
         }
 
         this.name = name;
+        this.spectator = spectator;
+        this.hidden = hidden;
 
         if (state.isClosing) {
             await this.sendError("AUProximity is currently undergoing maintenence, please try again in a few minutes.", true);
             return;
         }
 
-        // TODO: make this just a deepEqual on backendModel
-        let room = state.allRooms.find(room => {
-            if (room.backendModel.gameCode !== backendModel.gameCode) return false;
-
-            if (room.backendModel.backendType === BackendType.Impostor && backendModel.backendType === BackendType.Impostor) {
-                return (room.backendModel as ImpostorBackendModel).ip === (backendModel as ImpostorBackendModel).ip;
-            } else if (room.backendModel.backendType === BackendType.PublicLobby && backendModel.backendType === BackendType.PublicLobby) {
-                return (room.backendModel as PublicLobbyBackendModel).region === (backendModel as PublicLobbyBackendModel).region;
-            } else if (room.backendModel.backendType === BackendType.NodePolus && backendModel.backendType === BackendType.NodePolus) {
-                return (room.backendModel as NodePolusBackendModel).ip === (backendModel as NodePolusBackendModel).ip;
-            } else if (room.backendModel.backendType === BackendType.BepInEx && backendModel.backendType === BackendType.BepInEx) {
-                return (room.backendModel as BepInExBackendModel).token === (backendModel as BepInExBackendModel).token;
-            }
-            return false;
-        });
+        const key = Room.getRoomKey(backendModel);
+        let room = state.allRooms.get(key);
 
         if (!room) {
-            room = new Room(backendModel);
-            state.allRooms.push(room);
+            let owner: boolean;
+
+            try {
+                owner = await state.coordinator.claim(key);
+            } catch (e) {
+                logger.error("Couldn't claim room " + key + ". " + (e?.message || e));
+                this.sendError("Couldn't join the game, try again in a moment.", true);
+                return;
+            }
+
+            // Another client may have created the room while the claim was being made.
+            room = state.allRooms.get(key) || new Room(backendModel, owner);
+            state.allRooms.set(room.key, room);
         }
 
         room.addClient(this);
         this.room = room;
     }
     
+    /**
+     * Joins a room as its stream mix, which needs the token that the room's host was given.
+     */
+    async joinMix(backendModel: BackendModel, token: string): Promise<void> {
+        if (typeof token !== "string" || !Room.isMixToken(backendModel, token)) {
+            this.sendError("That stream mix link isn't valid, ask the host for a new one.", true);
+            return;
+        }
+
+        await this.joinRoom("Stream mix", backendModel, true, true);
+    }
+
     async leaveRoom(): Promise<void> {
         this.name = "";
+        this.verified = false;
+        this.verificationColor = -1;
+        this.playerId = undefined;
+        this.radio = false;
+        this.spectator = false;
+        this.hidden = false;
+        this.perspective = "";
+        this.audibilities.clear();
+        this.flags.clear();
+        this.positions.clear();
         if (!this.room) return;
 
         await this.room.removeClient(this, false);
@@ -124,32 +281,117 @@ export default class Client implements ClientBase {
     }
 
     async handleDisconnect(): Promise<void> {
+        if (!this.room || RESUME_GRACE_PERIOD <= 0 || state.isClosing) {
+            return await this.destroy();
+        }
+
+        this.room.setReconnecting(this, true);
+        this.reconnectTimeout = setTimeout(async () => {
+            this.reconnectTimeout = undefined;
+            await this.destroy();
+        }, RESUME_GRACE_PERIOD);
+    }
+
+    async destroy(): Promise<void> {
         await this.leaveRoom();
         state.allClients = state.allClients.filter(client => client.uuid !== this.uuid);
     }
 
+    /**
+     * Gets everything that can be used to recognise this client again, the forwarded-for
+     * header is only used as far back as the proxies in front of the server are trusted.
+     */
+    getBanSignals(): BanSignals {
+        const forwardedFor = this.socket.handshake.headers["x-forwarded-for"];
+        const clientId = this.socket.handshake.auth?.clientId;
+
+        return {
+            address: getClientAddress(
+                this.socket.handshake.address,
+                typeof forwardedFor === "string" ? forwardedFor : undefined,
+                TRUSTED_PROXIES
+            ),
+            clientId: typeof clientId === "string" ? clientId : undefined
+        };
+    }
+
     sendError(err: string, fatal: boolean): void {
         this.socket.emit(ClientSocketEvents.Error, { err, fatal });
     }
 
+    setVerification(verified: boolean, color: ColorID): void {
+        this.socket.emit(ClientSocketEvents.SetVerification, { verified, color });
+    }
+
+    setPlayerChoices(players: { id: string; name: string; color: ColorID }[]): void {
+        this.socket.emit(ClientSocketEvents.SetPlayerChoices, { players });
+    }
+
+    setMixToken(token: string): void {
+        this.socket.emit(ClientSocketEvents.SetMixToken, { token });
+    }
+
+    setSpectatorRequests(spectators: { uuid: string; name: string }[]): void {
+        this.socket.emit(ClientSocketEvents.SetSpectatorRequests, { spectators });
+    }
+
+    setRadioOf(uuid: string, radio: boolean): void {
+        this.socket.emit(ClientSocketEvents.SetRadioOf, { uuid, radio });
+    }
+
+    setReconnectingOf(uuid: string, reconnecting: boolean): void {
+        this.socket.emit(ClientSocketEvents.SetReconnectingOf, { uuid, reconnecting });
+    }
+
     syncAllClients(array: ClientBase[]): void {
         this.socket.emit(ClientSocketEvents.SyncAllClients, array);
     }
 
-    addClient(uuid: string, name: string, position: PlayerPose, color: ColorID): void {
+    addClient(uuid: string, name: string, color: ColorID, spectator: boolean, hidden: boolean): void {
         this.socket.emit(ClientSocketEvents.AddClient, {
             uuid,
             name,
-            position,
-            color
+            color,
+            spectator,
+            hidden
         });
     }
 
     removeClient(uuid: string, ban: boolean): void {
+        this.audibilities.delete(uuid);
+        this.flags.delete(uuid);
+        this.positions.delete(uuid);
         this.socket.emit(ClientSocketEvents.RemoveClient, { uuid, ban });
     }
 
-    setPoseOf(uuid: string, position: PlayerPose): void {
+    setAudibilityOf(uuid: string, audibility: Audibility): void {
+        if (_.isEqual(this.audibilities.get(uuid), audibility))
+            return;
+
+        this.audibilities.set(uuid, audibility);
+        this.socket.emit(ClientSocketEvents.SetAudibilityOf, { uuid, audibility });
+    }
+
+    /**
+     * Whether the client can currently hear a speaker, going by the last audibility that it was sent.
+     */
+    canHear(uuid: string): boolean {
+        return (this.audibilities.get(uuid)?.gain || 0) > 0;
+    }
+
+    sendRelayChunk(uuid: string, data: Buffer, init: boolean): void {
+        this.socket.emit(ClientSocketEvents.RelayChunkOf, { uuid, data, init });
+    }
+
+    restartRelay(): void {
+        this.socket.emit(ClientSocketEvents.RelayRestart);
+    }
+
+    setPositionOf(uuid: string, position: PlayerPose): void {
+        if (_.isEqual(this.positions.get(uuid), position))
+            return;
+
+        this.positions.set(uuid, position);
         this.socket.emit(ClientSocketEvents.SetPositionOf, { uuid, position });
     }
 
@@ -161,6 +403,14 @@ export default class Client implements ClientBase {
         this.socket.emit(ClientSocketEvents.SetColorOf, { uuid, color });
     }
 
+    sendChat(message: ChatMessage): void {
+        this.socket.emit(ClientSocketEvents.Chat, message);
+    }
+
+    setNameOf(uuid: string, name: string): void {
+        this.socket.emit(ClientSocketEvents.SetNameOf, { uuid, name });
+    }
+
     setHost(name: string): void {
         this.socket.emit(ClientSocketEvents.SetHost, { name });
     }
@@ -182,6 +432,18 @@ export default class Client implements ClientBase {
     }
 
     setFlagsOf(uuid: string, flags: PlayerFlag): void {
+        if (this.flags.get(uuid) === flags)
+            return;
+
+        this.flags.set(uuid, flags);
         this.socket.emit(ClientSocketEvents.SetFlagsOf, { uuid, flags });
     }
+
+    setBans(bans: { id: string; name: string; bannedAt: number }[]): void {
+        this.socket.emit(ClientSocketEvents.SetBans, { bans });
+    }
+
+    setCameraOf(uuid: string, camera: number): void {
+        this.socket.emit(ClientSocketEvents.SetCameraOf, { uuid, camera });
+    }
 }
@@ -0,0 +1,121 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import util from "util";
+import zlib from "zlib";
+
+import { BackendEvent } from "./types/enums/BackendEvents";
+import { BackendType } from "./types/models/Backends";
+
+import { RECORDINGS_DIR } from "./consts";
+import logger from "./util/logger";
+
+export interface RecordingHeader {
+    version: number;
+    gameCode: string;
+    backendType: BackendType;
+    startedAt: number;
+}
+
+/**
+ * An event in a recording, with the number of milliseconds since the recording started.
+ */
+export type RecordedEvent = [ number, BackendEvent, unknown ];
+
+const RecordingName = /^[\w-]+$/;
+const Extension = ".jsonl.gz";
+
+const gunzip = util.promisify(zlib.gunzip);
+
+/**
+ * Writes the backend events of a single game to a gzipped file, the first line
+ * is a header and every line after it is an event.
+ */
+export default class GameRecorder {
+    public readonly name: string;
+    public readonly startedAt = Date.now();
+
+    private gzip = zlib.createGzip();
+    private failed = false;
+    private finished: Promise<void>;
+
+    constructor(gameCode: string, backendType: BackendType) {
+        // Anyone who knows a recording's name can replay it, so the name ends with a random id that can't be guessed
+        // from the game code and the time that the game started.
+        this.name = gameCode.toUpperCase().replace(/[^\w-]/g, "") + "-" + new Date(this.startedAt).toISOString().replace(/[:.]/g, "-")
+            + "-" + crypto.randomBytes(12).toString("hex");
+
+        const filename = GameRecorder.getPath(this.name) as string;
+        const file = fs.createWriteStream(filename);
+
+        this.finished = new Promise(resolve => {
+            file.on("close", resolve);
+            file.on("error", e => {
+                this.failed = true;
+                logger.error("Couldn't write the recording " + filename + ". " + e.message);
+                resolve();
+            });
+        });
+
+        this.gzip.pipe(file);
+        this.write({ version: 1, gameCode, backendType, startedAt: this.startedAt } as RecordingHeader);
+    }
+
+    static get enabled(): boolean {
+        return !!RECORDINGS_DIR;
+    }
+
+    /**
+     * Gets where a recording is stored, names that could point outside of
+     * the recordings directory are rejected.
+     */
+    static getPath(name: string): string|undefined {
+        if (!GameRecorder.enabled || !RecordingName.test(name))
+            return;
+
+        return path.join(RECORDINGS_DIR, name + Extension);
+    }
+
+    static async list(): Promise<string[]> {
+        if (!GameRecorder.enabled)
+            return [];
+
+        const files = await fs.promises.readdir(RECORDINGS_DIR);
+
+        return files
+            .filter(file => file.endsWith(Extension))
+            .map(file => file.slice(0, -Extension.length));
+    }
+
+    static async read(name: string): Promise<{ header: RecordingHeader; events: RecordedEvent[] }> {
+        const filename = GameRecorder.getPath(name);
+
+        if (!filename)
+            throw new Error("There is no recording called " + name + ".");
+
+        const data = await fs.promises.readFile(filename);
+        const [ header, ...events ] = (await gunzip(data)).toString("utf8")
+            .split("\n")
+            .filter(line => line)
+            .map(line => JSON.parse(line));
+
+        return { header, events };
+    }
+
+    record(event: BackendEvent, payload: unknown): void {
+        this.write([ Date.now() - this.startedAt, event, payload ] as RecordedEvent);
+    }
+
+    stop(): Promise<void> {
+        this.gzip.end();
+
+        return this.finished;
+    }
+
+    private write(line: unknown) {
+        if (this.failed)
+            return;
+
+        this.gzip.write(JSON.stringify(line) + "\n");
+    }
+}
@@ -0,0 +1,106 @@
+import { HostOptions } from "./types/models/ClientOptions";
+import { MaxFalloff, MinFalloff } from "./util/hostOptions";
+
+import Room from "./Room";
+
+export interface HostCommandResult {
+    message: string;
+    error: boolean;
+}
+
+// The host options that can be switched on and off from the chat, by the name used in commands.
+const Toggles: Record<string, keyof HostOptions> = {
+    vision: "falloffVision",
+    colliders: "colliders",
+    pa: "paSystems",
+    comms: "commsSabotage",
+    meetingcomms: "meetingsCommsSabotage",
+    radio: "impostorRadio",
+    relay: "relay",
+    verify: "verifyNames",
+    roles: "spectatorRoles"
+};
+
+const Help = "Commands: falloff <" + MinFalloff + "-" + MaxFalloff + ">, "
+    + Object.keys(Toggles).join(", ") + " <on|off>, kick <name>, ban <name>";
+
+function ok(message: string): HostCommandResult {
+    return { message, error: false };
+}
+
+function fail(message: string): HostCommandResult {
+    return { message, error: true };
+}
+
+function parseToggle(value: string|undefined): boolean|undefined {
+    switch (value?.toLowerCase()) {
+        case "on":
+        case "true":
+        case "yes":
+            return true;
+        case "off":
+        case "false":
+        case "no":
+            return false;
+    }
+}
+
+/**
+ * Runs a command that the host of a game typed in the game's chat, so that
+ * they can control the room without switching to the web UI.
+ */
+export async function runHostCommand(room: Room, command: string, args: string[]): Promise<HostCommandResult> {
+    if (command === "help")
+        return ok(Help);
+
+    if (command === "falloff") {
+        const falloff = parseFloat(args[0]);
+
+        if (isNaN(falloff) || falloff < MinFalloff || falloff > MaxFalloff)
+            return fail("The voice dropoff has to be a number from " + MinFalloff + " to " + MaxFalloff + ".");
+
+        room.setOptions({ ...room.options, falloff }, true);
+        return ok("Set the voice dropoff to " + falloff + ".");
+    }
+
+    if (Toggles[command]) {
+        const value = parseToggle(args[0]);
+
+        if (value === undefined)
+            return fail("Use /aup " + command + " on or /aup " + command + " off.");
+
+        if (Toggles[command] === "relay" && !value && room.options.impostorRadio)
+            return fail("The relay has to stay on while the impostor radio is on.");
+
+        room.setOptions({ ...room.options, [Toggles[command]]: value }, true);
+        return ok("Turned " + command + " " + (value ? "on" : "off") + ".");
+    }
+
+    if (command === "kick" || command === "ban") {
+        const name = args.join(" ");
+
+        if (!name)
+            return fail("Use /aup " + command + " <name>.");
+
+        const members = room.getMembersNamed(name);
+
+        if (!members.length)
+            return fail("Nobody called " + name + " is using AUProximity.");
+
+        if (members.length > 1)
+            return fail("More than one player is called " + name + ", use the web UI instead.");
+
+        const ban = command === "ban";
+        const client = room.clients.find(c => c === members[0]);
+
+        if (client) {
+            await room.removeClient(client, ban);
+        } else {
+            room.kickRemoteClient(members[0].uuid, ban);
+        }
+
+        return ok((ban ? "Banned " : "Kicked ") + members[0].name + ".");
+    }
+
+    return fail("Unknown command, " + Help);
+}
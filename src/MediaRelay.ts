@@ -0,0 +1,193 @@
+import { RoomMessageType } from "./coordination/RoomCoordinator";
+
+import { ClientBase } from "./types/ClientBase";
+import Client from "./Client";
+import Room from "./Room";
+import { state } from "./main";
+
+// How often a speaker can be asked to start a new recording, as everyone listening to it starts over when it does.
+const RestartInterval = 1000;
+
+// Clients send a chunk about every 100ms, anything this big isn't voice.
+export const MaxRelayChunkSize = 64 * 1024;
+
+// The id of a webm cluster, recordings can be played from the start of any cluster once the header has been played.
+const ClusterId = Buffer.from([ 0x1f, 0x43, 0xb6, 0x75 ]);
+
+// How much of the current cluster is kept for listeners that start hearing a speaker, a few seconds of voice
+// is far less than this, so only a recorder that never starts a new cluster runs into it.
+const MaxClusterSize = 512 * 1024;
+
+interface RelayedSpeaker {
+    // The listeners that were sent the start of the speaker's current recording, by uuid.
+    listeners: Set<string>;
+    restartedAt: number;
+    // What the current recording starts with before its first cluster, unless the start was missed.
+    header?: Buffer;
+    // Whether the first cluster has started, which completes the header.
+    clustered: boolean;
+    // The current cluster of the recording so far, unless it grew too big to keep.
+    cluster?: Buffer;
+}
+
+/**
+ * Relays the voice of each client in a room to only the clients that can hear it, so that every
+ * client uploads a single stream instead of calling everyone else.
+ *
+ * Clients record their voice in chunks, and a recording can only be played from its header, so
+ * a listener that starts hearing a speaker is sent the header followed by the current cluster.
+ * The speaker is only asked to start a new recording if those weren't kept.
+ */
+export default class MediaRelay {
+    private room: Room;
+    private speakers = new Map<string, RelayedSpeaker>();
+
+    constructor(room: Room) {
+        this.room = room;
+    }
+
+    /**
+     * Forwards a chunk of a speaker's recording to the clients on this process that can hear it,
+     * and to the other processes if the speaker is connected to this one.
+     */
+    relay(speaker: ClientBase, data: Buffer, init: boolean): void {
+        if (!this.room.options.relay || speaker.spectator || speaker.verified === false)
+            return;
+
+        if (this.isLocal(speaker) && this.room.remoteClients.length) {
+            state.coordinator.publish(this.room.key, {
+                type: RoomMessageType.RelayChunk,
+                uuid: speaker.uuid,
+                data: data.toString("base64"),
+                init
+            });
+        }
+
+        let relayed = this.speakers.get(speaker.uuid);
+
+        if (!relayed) {
+            relayed = { listeners: new Set, restartedAt: 0, clustered: false };
+            this.speakers.set(speaker.uuid, relayed);
+        }
+
+        // Listeners of the last recording have to start over from this one.
+        if (init) {
+            relayed.listeners.clear();
+        }
+
+        this.keep(relayed, data, init);
+
+        let restart = false;
+
+        for (const listener of this.room.clients) {
+            if (listener === speaker)
+                continue;
+
+            if (!this.receives(listener, speaker)) {
+                relayed.listeners.delete(listener.uuid);
+                continue;
+            }
+
+            if (init) {
+                relayed.listeners.add(listener.uuid);
+            }
+
+            if (relayed.listeners.has(listener.uuid)) {
+                listener.sendRelayChunk(speaker.uuid, data, init);
+            } else if (relayed.header && relayed.cluster) {
+                // The kept cluster already ends with this chunk.
+                relayed.listeners.add(listener.uuid);
+                listener.sendRelayChunk(speaker.uuid, Buffer.concat([ relayed.header, relayed.cluster ]), true);
+            } else {
+                restart = true;
+            }
+        }
+
+        if (restart && Date.now() - relayed.restartedAt > RestartInterval) {
+            relayed.restartedAt = Date.now();
+            this.restart(speaker);
+        }
+    }
+
+    /**
+     * Asks a speaker to start a new recording, the speaker may be connected to another process.
+     */
+    restart(speaker: ClientBase): void {
+        const client = this.room.clients.find(c => c === speaker);
+
+        if (client) {
+            client.restartRelay();
+        } else {
+            state.coordinator.publish(this.room.key, { type: RoomMessageType.RelayRestart, uuid: speaker.uuid });
+        }
+    }
+
+    /**
+     * Forgets a client both as a speaker and as a listener, so that it is
+     * sent a new recording of everyone that it can hear when it comes back.
+     */
+    remove(uuid: string): void {
+        this.speakers.delete(uuid);
+        this.speakers.forEach(relayed => relayed.listeners.delete(uuid));
+    }
+
+    reset(): void {
+        this.speakers.clear();
+    }
+
+    /**
+     * Whether a listener is sent a speaker's voice. Spectators get everyone's voice, like they would
+     * without the relay, so that a stream mix can tell who is speaking even when the player that it
+     * listens as can't hear them.
+     */
+    private receives(listener: Client, speaker: ClientBase) {
+        return this.room.isSpectating(listener) || listener.canHear(speaker.uuid);
+    }
+
+    /**
+     * Keeps the header of a speaker's recording and its current cluster, which is what a new
+     * listener needs to start playing the recording from the chunk that was just sent.
+     */
+    private keep(relayed: RelayedSpeaker, data: Buffer, init: boolean) {
+        if (init) {
+            relayed.header = Buffer.alloc(0);
+            relayed.cluster = undefined;
+            relayed.clustered = false;
+        }
+
+        // Nothing can be played from a recording whose start was missed.
+        if (!relayed.header)
+            return;
+
+        // The id of a cluster can be split across chunks, so the end of what was kept is searched again.
+        if (!relayed.clustered) {
+            const joined = Buffer.concat([ relayed.header, data ]);
+            const start = joined.indexOf(ClusterId, Math.max(relayed.header.length - ClusterId.length + 1, 0));
+
+            if (start === -1) {
+                relayed.header = joined.length <= MaxClusterSize ? joined : undefined;
+                return;
+            }
+
+            relayed.header = joined.subarray(0, start);
+            relayed.clustered = true;
+            data = joined.subarray(start);
+        }
+
+        const previous = relayed.cluster;
+        const joined = previous ? Buffer.concat([ previous, data ]) : data;
+        const start = joined.lastIndexOf(ClusterId);
+
+        if (start >= (previous ? Math.max(previous.length - ClusterId.length + 1, 1) : 0)) {
+            relayed.cluster = joined.subarray(start);
+        } else if (previous && joined.length <= MaxClusterSize) {
+            relayed.cluster = joined;
+        } else {
+            relayed.cluster = undefined;
+        }
+    }
+
+    private isLocal(speaker: ClientBase) {
+        return this.room.clients.some(c => c === speaker);
+    }
+}
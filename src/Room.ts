@@ -1,39 +1,106 @@
 import { ColorID, MapID } from "@skeldjs/constant";
+import crypto from "crypto";
 
 import { BackendEvent } from "./types/enums/BackendEvents";
 
 import { GameSettings, HostOptions } from "./types/models/ClientOptions";
+import { getCamera } from "./types/constants/CameraPositions";
+import { poseCollide } from "./types/constants/ColliderMaps";
+import { DefaultAudioRoutes } from "./types/constants/AudioRoutes";
 
-import {
-    BackendType,
-    BackendModel,
-    ImpostorBackendModel,
-    PublicLobbyBackendModel
-} from "./types/models/Backends";
+import { BackendType, BackendModel } from "./types/models/Backends";
 
-import { BackendAdapter } from "./backends/Backend";
+import { BackendAdapter, BackendAdapterClass } from "./backends/Backend";
 
+import BepInExBackend from "./backends/BepInExBackend";
 import ImpostorBackend from "./backends/ImpostorBackend";
+import NodePolusBackend from "./backends/NodePolusBackend";
 import NoOpBackend from "./backends/NoOpBackend";
 import PublicLobbyBackend from "./backends/PublicLobbyBackend";
+import CoordinatedBackend from "./backends/CoordinatedBackend";
+import ReplayBackend from "./backends/ReplayBackend";
 
-import Client, { PlayerModel, PlayerPose } from "./Client";
+import { RoomMessage, RoomMessageType } from "./coordination/RoomCoordinator";
+
+import { runHostCommand } from "./HostCommands";
+import GameRecorder from "./GameRecorder";
+import MediaRelay from "./MediaRelay";
+
+import Client, { Audibility, ChatMessage, PlayerModel, PlayerPose } from "./Client";
+import { ClientBase } from "./types/ClientBase";
 import { PlayerFlag } from "./types/enums/PlayerFlags";
+import { AudioRole, AudioRoute } from "./types/enums/AudioRoutes";
 
 import { state } from "./main";
 import { GameState } from "./types/enums/GameState";
 import { GameFlag } from "./types/enums/GameFlags";
 import { sleep } from "./util/sleep";
+import { backendErrors } from "./util/metrics";
+import { MIX_SECRET, PUBLIC_URL } from "./consts";
+import logger from "./util/logger";
 
 const GameEndTimeout = 10 * 60 * 1000;
 
+// How often a room that another process owns checks whether that process still holds its claim.
+const OwnerCheckInterval = 10 * 1000;
+
+// How often each process tells the others which of its clients are still in a room, and how long a remote
+// client is kept without being mentioned, which is as long as the claim of a process that stopped lasts.
+const PresenceInterval = 10 * 1000;
+const PresenceTimeout = 30 * 1000;
+
+// Every stream mix is connected to every client, so only a few are allowed in each room.
+const MaxMixListeners = 2;
+
+// The colours that every version of the game has, clients are asked to switch to one of these.
+const VerificationColors: ColorID[] = [ ...Array(12).keys() ];
+
+const Silent: Audibility = { gain: 0, pan: { x: 0, y: 0, z: 0 } };
+const Global: Audibility = { gain: 1, pan: { x: 0, y: 0, z: 0 } };
+
+// Backend events identify players by a stable id as well as by their current name.
+interface PlayerPayload {
+    id: string;
+    name: string;
+}
+
+function normalizeName(name: string): string {
+    return name.toLowerCase().trim();
+}
+
+const BackendAdapters: Record<BackendType, BackendAdapterClass> = {
+    [BackendType.NoOp]: NoOpBackend,
+    [BackendType.PublicLobby]: PublicLobbyBackend,
+    [BackendType.Impostor]: ImpostorBackend,
+    [BackendType.BepInEx]: BepInExBackend,
+    [BackendType.NodePolus]: NodePolusBackend,
+    [BackendType.Replay]: ReplayBackend
+};
+
+// Events that aren't part of the game itself, so they are left out of recordings. The chat is left
+// out too, as players don't expect what they write to be kept after the game.
+const UnrecordedEvents = new Set([ BackendEvent.Error, BackendEvent.HostCommand, BackendEvent.JoinedLobby, BackendEvent.Chat ]);
+
 export default class Room {
+    public readonly key: string;
+    public readonly createdAt = Date.now();
     public backendModel: BackendModel;
     public backendAdapter: BackendAdapter;
     public clients: Client[] = [];
-    public bans: Set<string> = new Set;
+    public remoteClients: ClientBase[] = [];
+
+    /**
+     * Whether this process runs the room's backend adapter, rather than relaying its events
+     * from the process that does, a room takes over if the process that owns it stops.
+     */
+    public owner: boolean;
+    destroyed = false;
+    private ownerCheck?: NodeJS.Timeout;
+    private presenceCheck: NodeJS.Timeout;
+    private remoteSeenAt = new Map<string, number>();
 
     map: MapID;
+    hostId?: string;
     hostname: string;
     flags = 0;
     state: GameState = GameState.Lobby;
@@ -43,60 +110,190 @@ export default class Room {
         colliders: false,
         paSystems: true,
         commsSabotage: true,
-        meetingsCommsSabotage: true
+        meetingsCommsSabotage: true,
+        impostorRadio: false,
+        relay: false,
+        verifyNames: false,
+        spectatorRoles: false,
+        routes: DefaultAudioRoutes
     };
     settings: GameSettings = {
         crewmateVision: 1,
         map: MapID.TheSkeld
     };
     players = new Map<string, PlayerModel>();
+    revealedDeaths = new Set<string>();
+    recorder?: GameRecorder;
+    relay = new MediaRelay(this);
+
+    // Spectators on any process that are waiting for the host to let them in, by uuid.
+    spectatorRequests = new Map<string, string>();
 
-    constructor(backendModel: BackendModel) {
+    constructor(backendModel: BackendModel, owner = true) {
+        this.key = Room.getRoomKey(backendModel);
         this.backendModel = backendModel;
-        this.backendAdapter = Room.buildBackendAdapter(backendModel);
+        this.owner = owner;
+        // Anyone could take the host's name otherwise, so it's only off where there are no colours to prove names with.
+        this.options.verifyNames = !!BackendAdapters[backendModel.backendType]?.supportsNameVerification;
+        this.backendAdapter = owner
+            ? Room.buildBackendAdapter(backendModel)
+            : new CoordinatedBackend(backendModel);
+
+        state.coordinator.subscribe(this.key, message => this.handleRoomMessage(message));
         this.initializeBackend();
+
+        this.presenceCheck = setInterval(() => this.checkPresence(), PresenceInterval);
+
+        if (!owner) {
+            this.ownerCheck = setInterval(() => this.checkOwner(), OwnerCheckInterval);
+            state.coordinator.publish(this.key, { type: RoomMessageType.Sync });
+        }
     }
 
-    private static buildBackendAdapter(backendModel: BackendModel): BackendAdapter {
-        if (backendModel.backendType === BackendType.PublicLobby) {
-            return new PublicLobbyBackend(backendModel as PublicLobbyBackendModel);
-        } else if (backendModel.backendType === BackendType.Impostor) {
-            return new ImpostorBackend(backendModel as ImpostorBackendModel);
-        } else {
-            return new NoOpBackend();
+    /**
+     * Takes over the room's backend if the process that owned it stopped refreshing its claim.
+     */
+    private async checkOwner() {
+        if (this.destroyed || this.owner)
+            return;
+
+        try {
+            if (!await state.coordinator.claim(this.key))
+                return;
+        } catch (e) {
+            logger.error("Couldn't check who owns room " + this.key + ". " + (e?.message || e));
+            return;
         }
+
+        if (this.destroyed) {
+            await state.coordinator.release(this.key);
+            return;
+        }
+
+        logger.info("Taking over room " + this.key + " from a process that stopped running it.");
+
+        if (this.ownerCheck) clearInterval(this.ownerCheck);
+        this.backendAdapter.removeAllListeners();
+        await this.backendAdapter.destroy();
+
+        this.owner = true;
+        this.backendAdapter = Room.buildBackendAdapter(this.backendModel);
+
+        // Clients of the process that stopped are gone, the processes that are still running send theirs again.
+        for (const remote of this.remoteClients) {
+            this.clients.forEach(c => c.removeClient(remote.uuid, false));
+            this.relay.remove(remote.uuid);
+        }
+
+        this.remoteClients = [];
+        this.remoteSeenAt.clear();
+        this.initializeBackend();
+        state.coordinator.publish(this.key, { type: RoomMessageType.Sync });
+    }
+
+    /**
+     * All clients in the room, including ones connected to other server processes.
+     */
+    get members(): ClientBase[] {
+        return [ ...this.clients, ...this.remoteClients ];
+    }
+
+    /**
+     * Gets the key that this room is stored under in the room registry,
+     * any two backend models for the same game will have the same key.
+     */
+    static getRoomKey(backendModel: BackendModel): string {
+        const backendType = BackendAdapters[backendModel.backendType] ? backendModel.backendType : BackendType.NoOp;
+        const adapterClass = BackendAdapters[backendType];
+
+        return BackendType[backendType] + ":" + adapterClass.getRoomKey(backendModel) + ":" + backendModel.gameCode;
+    }
+
+    /**
+     * Gets the token that lets a stream mix join the room for a game.
+     */
+    static getMixToken(backendModel: BackendModel): string {
+        return crypto.createHmac("sha256", MIX_SECRET).update(Room.getRoomKey(backendModel)).digest("hex");
+    }
+
+    static isMixToken(backendModel: BackendModel, token: string): boolean {
+        const expected = Buffer.from(Room.getMixToken(backendModel));
+        const received = Buffer.from(token);
+
+        return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+    }
+
+    private static buildBackendAdapter(backendModel: BackendModel): BackendAdapter {
+        const AdapterClass = BackendAdapters[backendModel.backendType] || NoOpBackend;
+
+        return new AdapterClass(backendModel);
     }
 
     private initializeBackend() {
-        this.backendAdapter.on(BackendEvent.PlayerPose, (payload: { name: string; position: PlayerPose; ventid: number; }) => {
-            const client = this.getClientByName(payload.name);
+        if (this.owner) {
+            for (const event of Object.values(BackendEvent)) {
+                this.backendAdapter.on(event, (payload: unknown) => {
+                    state.coordinator.publish(this.key, { type: RoomMessageType.BackendEvent, event, payload });
+                    this.recordEvent(event, payload);
+                });
+            }
+        }
+
+        this.backendAdapter.getReservedColors = () => this.clients
+            .filter(c => !c.verified && c.verificationColor !== -1)
+            .map(c => c.verificationColor);
+
+        this.backendAdapter.on(BackendEvent.PlayerPose, (payload: PlayerPayload & { position: PlayerPose; ventid: number; }) => {
+            const player = this.getPlayer(payload);
+            const client = this.getMemberByPlayer(payload.id);
+
+            player.position = payload.position;
 
             if (client) {
-                this.clients.forEach(c => {
-                    c.setPoseOf(client.uuid, payload.position);
-                });
+                this.updatePositions(client);
+                this.updateAudibility(client);
             }
         });
 
-        this.backendAdapter.on(BackendEvent.PlayerVent, (payload: { name: string, ventid: number }) => {
-            const client = this.getClientByName(payload.name);
-            const player = this.getPlayerByName(payload.name);
+        this.backendAdapter.on(BackendEvent.PlayerVent, (payload: PlayerPayload & { ventid: number }) => {
+            const player = this.getPlayer(payload);
+            const client = this.getMemberByPlayer(payload.id);
 
             player.ventid = payload.ventid;
 
             if (client) {
                 this.clients.forEach(c => {
-                    c.setVentOf(client.uuid, payload.ventid);
+                    c.setVentOf(client.uuid, this.getVisibleVent(c, client));
                 });
             }
         });
 
-        this.backendAdapter.on(BackendEvent.PlayerColor, (payload: { name: string; color: ColorID }) => {
-            const client = this.getClientByName(payload.name);
-            const player = this.getPlayerByName(payload.name);
+        this.backendAdapter.on(BackendEvent.PlayerColor, (payload: PlayerPayload & { color: ColorID }) => {
+            const player = this.getPlayer(payload);
 
             player.color = payload.color;
 
+            // Players can share a name, so the colour decides which of them the client is unless it already picked one.
+            const claimant = this.clients.find(c =>
+                !c.verified &&
+                c.verificationColor === payload.color &&
+                (c.playerId ? c.playerId === payload.id : normalizeName(c.name) === normalizeName(payload.name))
+            );
+
+            if (claimant) {
+                this.verifyClient(claimant, payload.id);
+            }
+
+            // Someone else took the colour that a client was asked to switch to, or one just became free.
+            for (const c of this.clients) {
+                if (!c.verified && (c.verificationColor === payload.color || c.verificationColor === -1)) {
+                    c.verificationColor = this.getVerificationColor();
+                    c.setVerification(false, c.verificationColor);
+                }
+            }
+
+            const client = this.getMemberByPlayer(payload.id);
+
             if (client) {
                 this.clients.forEach(c => {
                     c.setColorOf(client.uuid, payload.color);
@@ -104,32 +301,115 @@ export default class Room {
             }
         });
 
-        this.backendAdapter.on(BackendEvent.HostChange, async (payload: { name: string }) => {
+        this.backendAdapter.on(BackendEvent.PlayerLeave, (payload: PlayerPayload) => {
+            // Backends that reuse ids for the next player to join say when a player left, so that nobody takes over their clients.
+            if (!this.players.delete(payload.id))
+                return;
+
+            this.revealedDeaths.delete(payload.id);
+            this.members
+                .filter(member => member.playerId === payload.id)
+                .forEach(member => this.unbindClient(member));
+        });
+
+        this.backendAdapter.on(BackendEvent.PlayerName, (payload: PlayerPayload) => {
+            const player = this.getPlayer(payload);
+
+            player.name = payload.name;
+
+            if (payload.id === this.hostId) {
+                this.hostname = payload.name;
+                this.clients.forEach(c => c.setHost(this.hostname));
+            }
+
+            const client = this.getMemberByPlayer(payload.id);
+
+            if (client) {
+                client.name = payload.name;
+                this.clients.forEach(c => c.setNameOf(client.uuid, payload.name));
+            }
+
+            // The new name may be the one that a client is waiting to be matched with.
+            this.bindClients();
+        });
+
+        this.backendAdapter.on(BackendEvent.Chat, (payload: PlayerPayload & { message: string }) => {
+            const player = this.getPlayer(payload);
+            const sender = this.getMemberByPlayer(payload.id);
+
+            // Only ghosts can read what other ghosts say while a game is going on.
+            const ghost = this.state !== GameState.Lobby && !!(player.flags & PlayerFlag.IsDead);
+            const message: ChatMessage = {
+                uuid: sender?.uuid,
+                name: player.name,
+                color: player.color,
+                message: payload.message,
+                ghost,
+                sentAt: Date.now()
+            };
+
+            for (const c of this.clients) {
+                if (ghost && !this.isSpectating(c) && !(this.getPlayerOf(c).flags & PlayerFlag.IsDead))
+                    continue;
+
+                c.sendChat(message);
+            }
+        });
+
+        this.backendAdapter.on(BackendEvent.HostCommand, async (payload: { command: string; args: string[] }) => {
+            // Every process sees the command, but only the one running the backend can reply to it.
+            if (!this.owner)
+                return;
+
+            const result = await runHostCommand(this, payload.command, payload.args);
+            await this.backendAdapter.say(result.message, result.error);
+        });
+
+        this.backendAdapter.on(BackendEvent.JoinedLobby, async () => {
+            if (!this.owner)
+                return;
+
+            await this.backendAdapter.say(this.getAnnouncement());
+        });
+
+        this.backendAdapter.on(BackendEvent.HostChange, async (payload: PlayerPayload) => {
+            this.hostId = payload.id;
             this.hostname = payload.name;
 
             this.clients.forEach(c => {
                 c.setHost(this.hostname);
             });
+            this.sendSpectatorRequests();
+            this.clients.find(c => this.isHost(c))?.setMixToken(Room.getMixToken(this.backendModel));
         });
 
         this.backendAdapter.on(BackendEvent.GameState, async (payload: { state: GameState }) => {
             this.state = payload.state;
             if (this.state === GameState.Lobby) {
                 this.flags = GameFlag.None;
+                this.revealedDeaths.clear();
                 for (const [ , player ] of this.players) {
                     player.flags = PlayerFlag.None;
+                    player.camera = -1;
+                }
+            } else if (this.state === GameState.Meeting) {
+                // Everyone can see who is dead on the voting screen.
+                for (const [ id, player ] of this.players) {
+                    if (player.flags & PlayerFlag.IsDead) {
+                        this.revealedDeaths.add(id);
+                    }
                 }
             }
 
             this.clients.forEach(c => {
                 c.setGameState(this.state);
-                for (const [ name, player ] of this.players) {
-                    const client = this.getClientByName(name);
-                    if (client) {
-                        c.setFlagsOf(client.uuid, player.flags);
-                    }
-                }
+
+                // The radio only works during the game, so nobody is left talking on it.
+                if (this.state !== GameState.Game) this.setRadio(c, false);
             });
+            this.updateFlags();
+            this.updatePositions();
+            this.updateAudibility();
         });
 
         this.backendAdapter.on(BackendEvent.SettingsUpdate, async (payload: { settings: GameSettings }) => {
@@ -138,11 +418,12 @@ export default class Room {
             this.clients.forEach(c => {
                 c.setSettings(payload.settings);
             });
+            this.updateAudibility();
         });
         
-        this.backendAdapter.on(BackendEvent.PlayerFlags, async (payload: { name: string; flags: PlayerFlag; set: boolean}) => {
-            const client = this.getClientByName(payload.name);
-            const player = this.getPlayerByName(payload.name);
+        this.backendAdapter.on(BackendEvent.PlayerFlags, async (payload: PlayerPayload & { flags: PlayerFlag; set: boolean}) => {
+            const player = this.getPlayer(payload);
+            const client = this.getMemberByPlayer(payload.id);
 
             if (payload.set) {
                 player.flags |= payload.flags;
@@ -150,10 +431,33 @@ export default class Room {
                 player.flags &= ~payload.flags;
             }
 
+            if (
+                payload.set &&
+                (payload.flags & PlayerFlag.IsDead) &&
+                this.state === GameState.Meeting
+            ) {
+                // Players that die during a meeting were voted out, which everyone sees.
+                this.revealedDeaths.add(payload.id);
+            }
+
+            if (client) {
+                this.updateFlags(client);
+                this.updatePositions(client);
+                this.updateAudibility(client);
+            }
+        });
+
+        this.backendAdapter.on(BackendEvent.PlayerCamera, async (payload: PlayerPayload & { camera: number }) => {
+            const player = this.getPlayer(payload);
+            const client = this.getMemberByPlayer(payload.id);
+
+            player.camera = payload.camera;
+
             if (client) {
                 this.clients.forEach(c => {
-                    c.setFlagsOf(client.uuid, player.flags);
+                    c.setCameraOf(client.uuid, player.camera);
                 });
+                this.updateAudibility(client);
             }
         });
 
@@ -167,9 +471,18 @@ export default class Room {
             this.clients.forEach(c => {
                 c.setGameFlags(this.flags);
             });
+            this.updateAudibility();
         });
 
         this.backendAdapter.on(BackendEvent.Error, async (payload: { err: string, fatal: boolean }) => {
+            // Other processes get the owner's errors relayed, which it has already counted.
+            if (this.owner) {
+                backendErrors.inc({
+                    backend_type: BackendType[this.backendModel.backendType],
+                    fatal: String(payload.fatal)
+                });
+            }
+
             this.clients.forEach(c => {
                 c.sendError(payload.err, payload.fatal);
             });
@@ -180,55 +493,700 @@ export default class Room {
         this.backendAdapter.initialize();
     }
 
-    getPlayerByName(name: string): PlayerModel {
-        const found = this.players.get(name.toLowerCase().trim());
+    /**
+     * Gets a player by the id that the backend gave them, the first event about a
+     * player creates them and may let a client that has their name be matched with them.
+     */
+    getPlayer(payload: PlayerPayload): PlayerModel {
+        const found = this.players.get(payload.id);
 
         if (found) {
             return found;
         }
 
         const player: PlayerModel = {
-            name,
+            id: payload.id,
+            name: payload.name,
             position: { x: 0, y: 0 },
             color: -1,
             flags: PlayerFlag.None,
-            ventid: -1
+            ventid: -1,
+            camera: -1
         };
 
-        this.players.set(name.toLowerCase().trim(), player);
+        this.players.set(payload.id, player);
+        this.bindClients();
+
         return player;
     }
 
-    getClientByName(name: string): Client|undefined {
-        return this.clients.find(client => client.name?.toLowerCase()?.trim() === name.toLowerCase().trim());
+    /**
+     * Gets the player that a client is playing as, clients that haven't proven their name
+     * or been matched with a player yet get a blank player so that they can't see or hear as someone else.
+     */
+    getPlayerOf(client: ClientBase): PlayerModel {
+        const player = client.verified !== false && client.playerId && this.players.get(client.playerId);
+
+        if (player) {
+            return player;
+        }
+
+        return {
+            id: "",
+            name: client.name,
+            position: { x: 0, y: 0 },
+            color: -1,
+            flags: PlayerFlag.None,
+            ventid: -1,
+            camera: -1
+        };
+    }
+
+    getMemberByPlayer(id: string): ClientBase|undefined {
+        return this.members.find(client => client.verified !== false && client.playerId === id);
+    }
+
+    getMembersNamed(name: string): ClientBase[] {
+        return this.members.filter(client =>
+            client.verified !== false &&
+            client.playerId &&
+            normalizeName(client.name) === normalizeName(name)
+        );
+    }
+
+    isHost(client: Client): boolean {
+        return client.verified && !!client.playerId && client.playerId === this.hostId;
+    }
+
+    /**
+     * Matches every client that isn't playing as anyone yet with a player that has their name.
+     */
+    private bindClients() {
+        for (const client of this.clients) {
+            if (!client.playerId && !client.spectator) {
+                this.bindClient(client);
+            }
+        }
+    }
+
+    /**
+     * Matches a client with the only free player that has its name, if more than
+     * one player has that name then the client is asked which of them it is.
+     */
+    private bindClient(client: Client) {
+        const named = [ ...this.players.values() ].filter(player =>
+            normalizeName(player.name) === normalizeName(client.name) &&
+            !this.getMemberByPlayer(player.id)
+        );
+
+        // Players that haven't been given a colour may not have finished joining, so prefer the ones that have.
+        const inGame = named.filter(player => player.color !== -1);
+        const candidates = inGame.length ? inGame : named;
+
+        if (candidates.length === 1) {
+            this.setPlayerOf(client, candidates[0].id);
+        } else if (candidates.length > 1) {
+            client.setPlayerChoices(candidates.map(player => ({
+                id: player.id,
+                name: player.name,
+                color: player.color
+            })));
+        }
+    }
+
+    /**
+     * Separates a client from a player that left the game, the client is matched with
+     * a player again when it rejoins and has to prove its name again if the host asks for it.
+     */
+    private unbindClient(member: ClientBase) {
+        member.playerId = undefined;
+
+        const client = this.clients.find(c => c === member);
+
+        if (client && client.verified && this.requiresVerification()) {
+            client.verified = false;
+            client.verificationColor = this.getVerificationColor();
+            client.setVerification(false, client.verificationColor);
+        }
+
+        this.clients.forEach(c => {
+            c.setColorOf(member.uuid, -1);
+            c.setVentOf(member.uuid, -1);
+            c.setCameraOf(member.uuid, -1);
+        });
+
+        this.updateFlags(member);
+        this.updatePositions(member);
+        this.updateAudibility(member);
+    }
+
+    /**
+     * Matches a client with the player that it picked out of the ones sharing its name.
+     */
+    choosePlayer(client: Client, id: string): void {
+        const player = this.players.get(id);
+
+        if (
+            client.playerId ||
+            client.spectator ||
+            !player ||
+            normalizeName(player.name) !== normalizeName(client.name) ||
+            this.getMemberByPlayer(id)
+        ) return;
+
+        this.setPlayerOf(client, id);
+    }
+
+    /**
+     * Makes a client play as a player, clients that haven't proven their name yet
+     * only remember the player that they still have to prove that they are.
+     */
+    private setPlayerOf(client: Client, id: string) {
+        client.playerId = id;
+        client.setPlayerChoices([]);
+
+        if (!client.verified)
+            return;
+
+        const player = this.getPlayerOf(client);
+
+        this.clients.forEach(c => {
+            c.setColorOf(client.uuid, player.color);
+            c.setVentOf(client.uuid, this.getVisibleVent(c, client));
+            c.setCameraOf(client.uuid, player.camera);
+        });
+
+        state.coordinator.publish(this.key, { type: RoomMessageType.Join, uuid: client.uuid, name: client.name, playerId: id });
+
+        this.updateFlags(client);
+        this.updatePositions(client);
+        this.updateAudibility(client);
+
+        if (this.isHost(client)) {
+            this.sendBans(client);
+            this.sendSpectatorRequests(client);
+            client.setMixToken(Room.getMixToken(this.backendModel));
+        }
+    }
+
+    private handleRoomMessage(message: RoomMessage) {
+        switch (message.type) {
+            case RoomMessageType.BackendEvent:
+                if (!this.owner) {
+                    (this.backendAdapter as CoordinatedBackend).relay(message.event, message.payload);
+                }
+                break;
+            case RoomMessageType.Join:
+                this.addRemoteClient({
+                    uuid: message.uuid,
+                    name: message.name,
+                    verified: true,
+                    playerId: message.playerId,
+                    spectator: message.spectator,
+                    hidden: message.hidden
+                });
+                break;
+            case RoomMessageType.Leave:
+                if (this.spectatorRequests.delete(message.uuid)) {
+                    this.sendSpectatorRequests();
+                }
+                this.removeRemoteClient(message.uuid, message.ban);
+                break;
+            case RoomMessageType.Kick: {
+                const client = this.clients.find(member => member.uuid === message.uuid);
+                if (client) {
+                    this.removeClient(client, message.ban);
+                }
+                break;
+            }
+            case RoomMessageType.Reconnecting: {
+                const remote = this.remoteClients.find(member => member.uuid === message.uuid);
+                if (remote) {
+                    remote.reconnecting = message.reconnecting;
+                    this.clients.forEach(c => c.setReconnectingOf(remote.uuid, message.reconnecting));
+                }
+                break;
+            }
+            case RoomMessageType.Radio: {
+                const remote = this.remoteClients.find(member => member.uuid === message.uuid);
+                if (remote) {
+                    remote.radio = message.radio;
+                    this.sendRadioOf(remote);
+                    this.updateAudibility(remote);
+                }
+                break;
+            }
+            case RoomMessageType.SpectatorRequest:
+                if (message.pending) {
+                    this.spectatorRequests.set(message.uuid, message.name);
+                } else {
+                    this.spectatorRequests.delete(message.uuid);
+                }
+                this.sendSpectatorRequests();
+                break;
+            case RoomMessageType.ApproveSpectator: {
+                const client = this.clients.find(member => member.uuid === message.uuid);
+                if (client) {
+                    this.settleSpectator(client, message.approve);
+                }
+                break;
+            }
+            case RoomMessageType.RelayChunk: {
+                const remote = this.remoteClients.find(member => member.uuid === message.uuid);
+                if (remote) {
+                    this.relay.relay(remote, Buffer.from(message.data, "base64"), message.init);
+                }
+                break;
+            }
+            case RoomMessageType.RelayRestart:
+                this.clients.find(member => member.uuid === message.uuid)?.restartRelay();
+                break;
+            case RoomMessageType.Presence:
+                for (const uuid of message.uuids) {
+                    if (this.remoteSeenAt.has(uuid)) this.remoteSeenAt.set(uuid, Date.now());
+                }
+                break;
+            case RoomMessageType.Sync:
+                for (const client of this.clients) {
+                    if (client.spectator && !client.verified) {
+                        state.coordinator.publish(this.key, { type: RoomMessageType.SpectatorRequest, uuid: client.uuid, name: client.name, pending: true });
+                    }
+
+                    if (!client.verified)
+                        continue;
+
+                    state.coordinator.publish(this.key, {
+                        type: RoomMessageType.Join,
+                        uuid: client.uuid,
+                        name: client.name,
+                        playerId: client.playerId,
+                        spectator: client.spectator,
+                        hidden: client.hidden
+                    });
+
+                    if (client.reconnecting) {
+                        state.coordinator.publish(this.key, { type: RoomMessageType.Reconnecting, uuid: client.uuid, reconnecting: true });
+                    }
+
+                    if (client.radio) {
+                        state.coordinator.publish(this.key, { type: RoomMessageType.Radio, uuid: client.uuid, radio: true });
+                    }
+                }
+
+                if (this.owner) {
+                    this.publishSnapshot();
+                }
+                break;
+        }
+    }
+
+    /**
+     * Replays the state of the game as backend events, so that
+     * a process that just started relaying the room catches up.
+     */
+    private publishSnapshot() {
+        for (const [ event, payload ] of this.getSnapshot()) {
+            state.coordinator.publish(this.key, { type: RoomMessageType.BackendEvent, event, payload });
+        }
+    }
+
+    /**
+     * Describes the current state of the game as the backend events that would lead to it.
+     */
+    private getSnapshot(): [ BackendEvent, unknown ][] {
+        const snapshot: [ BackendEvent, unknown ][] = [];
+
+        if (this.hostId) {
+            snapshot.push([ BackendEvent.HostChange, { id: this.hostId, name: this.hostname } ]);
+        }
+
+        snapshot.push([ BackendEvent.SettingsUpdate, { settings: this.settings } ]);
+        snapshot.push([ BackendEvent.GameState, { state: this.state } ]);
+        snapshot.push([ BackendEvent.GameFlags, { flags: this.flags, set: true } ]);
+
+        for (const [ , player ] of this.players) {
+            const { id, name } = player;
+
+            snapshot.push([ BackendEvent.PlayerColor, { id, name, color: player.color } ]);
+            snapshot.push([ BackendEvent.PlayerPose, { id, name, position: player.position } ]);
+            snapshot.push([ BackendEvent.PlayerVent, { id, name, ventid: player.ventid } ]);
+            snapshot.push([ BackendEvent.PlayerCamera, { id, name, camera: player.camera } ]);
+            snapshot.push([ BackendEvent.PlayerFlags, { id, name, flags: player.flags, set: true } ]);
+        }
+
+        return snapshot;
+    }
+
+    /**
+     * Writes a backend event to the recording of the current game, recordings
+     * start with a snapshot of the lobby when the game starts and end when
+     * everyone is back in the lobby.
+     */
+    private recordEvent(event: BackendEvent, payload: unknown) {
+        if (!GameRecorder.enabled || this.backendModel.backendType === BackendType.Replay || UnrecordedEvents.has(event))
+            return;
+
+        const gameState = event === BackendEvent.GameState ? (payload as { state: GameState }).state : undefined;
+
+        if (!this.recorder && gameState === GameState.Game) {
+            try {
+                this.recorder = new GameRecorder(this.backendModel.gameCode, this.backendModel.backendType);
+            } catch (e) {
+                logger.error("Couldn't start recording room " + this.key + ". " + (e?.message || e));
+                return;
+            }
+
+            for (const [ snapshotEvent, snapshotPayload ] of this.getSnapshot()) {
+                this.recorder.record(snapshotEvent, snapshotPayload);
+            }
+
+            logger.info("Started recording room " + this.key + " as " + this.recorder.name + ".");
+        }
+
+        if (!this.recorder)
+            return;
+
+        this.recorder.record(event, payload);
+
+        if (gameState === GameState.Lobby) {
+            this.stopRecording();
+        }
+    }
+
+    private async stopRecording() {
+        const recorder = this.recorder;
+
+        if (!recorder)
+            return;
+
+        this.recorder = undefined;
+        await recorder.stop();
+        logger.info("Finished recording " + recorder.name + ".");
+    }
+
+    private addRemoteClient(remote: ClientBase) {
+        if (this.clients.some(client => client.uuid === remote.uuid))
+            return;
+
+        const existing = this.remoteClients.find(member => member.uuid === remote.uuid);
+
+        if (existing) {
+            // The remote client was matched with a player after it joined.
+            if (existing.playerId === remote.playerId)
+                return;
+
+            existing.playerId = remote.playerId;
+            remote = existing;
+        } else {
+            this.remoteClients.push(remote);
+        }
+
+        this.remoteSeenAt.set(remote.uuid, Date.now());
+
+        const player = this.getPlayerOf(remote);
+
+        this.clients.forEach(c => {
+            if (!existing) c.addClient(remote.uuid, remote.name, player.color, !!remote.spectator, !!remote.hidden);
+            c.setColorOf(remote.uuid, player.color);
+            c.setVentOf(remote.uuid, this.getVisibleVent(c, remote));
+            c.setCameraOf(remote.uuid, player.camera);
+        });
+
+        this.updateFlags(remote);
+        this.updatePositions(remote);
+        this.updateAudibility(remote);
+    }
+
+    private async removeRemoteClient(uuid: string, ban: boolean) {
+        if (!this.remoteClients.some(remote => remote.uuid === uuid))
+            return;
+
+        this.clients.forEach(c => c.removeClient(uuid, ban));
+        this.remoteClients = this.remoteClients.filter(remote => remote.uuid !== uuid);
+        this.remoteSeenAt.delete(uuid);
+        this.relay.remove(uuid);
+
+        if (this.members.length === 0) await this.destroy();
+    }
+
+    /**
+     * Tells the other processes which of this process' clients are still in the room, and forgets
+     * the remote clients that no process has mentioned for a while, as the process that had them
+     * stopped without saying that they left.
+     */
+    private async checkPresence() {
+        const uuids = this.clients.filter(c => c.verified).map(c => c.uuid);
+
+        if (uuids.length) {
+            state.coordinator.publish(this.key, { type: RoomMessageType.Presence, uuids });
+        }
+
+        const expired = this.remoteClients.filter(remote =>
+            Date.now() - (this.remoteSeenAt.get(remote.uuid) || 0) > PresenceTimeout
+        );
+
+        for (const remote of expired) {
+            logger.info("Forgetting " + remote.name + " in room " + this.key + ", the process that they were connected to stopped.");
+            await this.removeRemoteClient(remote.uuid, false);
+        }
     }
 
     addClient(client: Client): void {
-        if (this.bans.has(client.socket.handshake.address)) {
+        if (state.bans.isBanned(this.key, client.name, client.getBanSignals())) {
             return client.removeClient(client.uuid, true);
         }
 
-        const player = this.getPlayerByName(client.name);
+        if (client.hidden && this.members.filter(member => member.hidden).length >= MaxMixListeners) {
+            return client.sendError("This game already has " + MaxMixListeners + " stream mixes, close one of them first.", true);
+        }
 
-        client.syncAllClients(this.clients.map(c => ({
-            uuid: c.uuid,
-            name: c.name
-        })));
+        // Spectators don't have to prove a name, but they do have to be let in by the host unless they have the mix token.
+        client.verified = client.spectator ? client.hidden : !this.requiresVerification();
+
+        const player = this.getPlayerOf(client);
 
         this.clients.forEach(c => {
-            c.addClient(client.uuid, player.name, player.position, player.color);
-            c.setPoseOf(client.uuid, player.position);
+            c.addClient(client.uuid, client.name, player.color, client.spectator, client.hidden);
             c.setColorOf(client.uuid, player.color);
-
-            const p = this.getPlayerByName(c.name);
-            client.setColorOf(c.uuid, p.color);
-            client.setPoseOf(c.uuid, p.position);
-            client.setFlagsOf(c.uuid, p.flags);
         });
 
         this.clients.push(client);
 
-        client.setPoseOf(client.uuid, player.position);
+        if (client.verified) {
+            state.coordinator.publish(this.key, {
+                type: RoomMessageType.Join,
+                uuid: client.uuid,
+                name: client.name,
+                spectator: client.spectator,
+                hidden: client.hidden
+            });
+        } else if (client.spectator) {
+            this.setSpectatorRequest(client, true);
+        } else {
+            client.verificationColor = this.getVerificationColor();
+        }
+
+        this.syncClient(client);
+
+        if (!client.spectator) {
+            this.bindClient(client);
+        }
+    }
+
+    /**
+     * Lets a spectator that is waiting for the host into the room or turns them away,
+     * the spectator may be connected to another process.
+     */
+    approveSpectator(uuid: string, approve: boolean): void {
+        const client = this.clients.find(member => member.uuid === uuid);
+
+        if (client) {
+            this.settleSpectator(client, approve);
+        } else if (this.spectatorRequests.has(uuid)) {
+            state.coordinator.publish(this.key, { type: RoomMessageType.ApproveSpectator, uuid, approve });
+        }
+    }
+
+    private settleSpectator(client: Client, approve: boolean) {
+        if (!client.spectator || client.verified)
+            return;
+
+        this.setSpectatorRequest(client, false);
+
+        if (!approve) {
+            client.sendError("The host didn't let you spectate the game.", false);
+            this.removeClient(client, false);
+            return;
+        }
+
+        client.verified = true;
+        client.setVerification(true, -1);
+
+        state.coordinator.publish(this.key, { type: RoomMessageType.Join, uuid: client.uuid, name: client.name, spectator: true });
+
+        this.updateFlags(client);
+        this.updatePositions(client);
+        this.updateAudibility(client);
+    }
+
+    private setSpectatorRequest(client: Client, pending: boolean) {
+        if (pending) {
+            this.spectatorRequests.set(client.uuid, client.name);
+        } else if (!this.spectatorRequests.delete(client.uuid)) {
+            return;
+        }
+
+        state.coordinator.publish(this.key, { type: RoomMessageType.SpectatorRequest, uuid: client.uuid, name: client.name, pending });
+        this.sendSpectatorRequests();
+    }
+
+    /**
+     * Sends the host the spectators that are waiting to be let in.
+     */
+    sendSpectatorRequests(client = this.clients.find(c => this.isHost(c))): void {
+        client?.setSpectatorRequests([ ...this.spectatorRequests ].map(([ uuid, name ]) => ({ uuid, name })));
+    }
+
+    /**
+     * Whether a client is a spectator that the host has let in.
+     */
+    isSpectating(client: ClientBase): boolean {
+        return !!client.spectator && client.verified !== false;
+    }
+
+    /**
+     * Makes a spectator hear the game from where another client is, or hear everyone if
+     * the uuid is empty.
+     */
+    setPerspective(client: Client, uuid: string): void {
+        if (!client.spectator)
+            return;
+
+        client.perspective = uuid;
+        this.updateAudibility(client);
+    }
+
+    /**
+     * Gets the player that a spectator is listening as, if they are following someone.
+     */
+    private getPerspectiveOf(spectator: Client): PlayerModel|undefined {
+        const followed = this.members.find(member =>
+            member.uuid === spectator.perspective &&
+            !member.spectator &&
+            member.verified !== false
+        );
+
+        return followed && this.getPlayerOf(followed);
+    }
+
+    /**
+     * Picks a colour for a client to switch to in-game to prove who they are,
+     * which must be free as the game won't let two players share a colour.
+     */
+    private getVerificationColor(): ColorID {
+        const used = new Set([ ...this.players.values() ].map(player => player.color));
+        const free = VerificationColors.filter(color => !used.has(color));
+
+        if (!free.length)
+            return -1;
+
+        return free[Math.floor(Math.random() * free.length)];
+    }
+
+    /**
+     * Binds a client to a player with its name once it has proven that it is
+     * that player, replacing any other client that was bound to them.
+     */
+    verifyClient(client: Client, id: string): void {
+        const previous = this.clients.find(c => c !== client && c.verified && c.playerId === id);
+
+        if (previous) {
+            previous.sendError("Someone else proved that they are " + client.name + ", you have been disconnected.", false);
+            this.removeClient(previous, false);
+        }
+
+        client.verified = true;
+        client.verificationColor = -1;
+        client.setVerification(true, -1);
+
+        this.setPlayerOf(client, id);
+    }
+
+    /**
+     * Whether clients have to prove their name, which the host decides for backends that report player colours.
+     */
+    private requiresVerification(): boolean {
+        return this.options.verifyNames && !!BackendAdapters[this.backendModel.backendType]?.supportsNameVerification;
+    }
+
+    /**
+     * Makes a client prove its name again. It keeps its player, so that it only has to change colour to get it back.
+     */
+    private unverifyClient(client: Client) {
+        client.verified = false;
+        client.verificationColor = this.getVerificationColor();
+        client.setVerification(false, client.verificationColor);
+
+        // Other processes only know about clients that proved their name, it joins them again once it has.
+        state.coordinator.publish(this.key, { type: RoomMessageType.Leave, uuid: client.uuid, ban: false });
+
+        this.updateFlags(client);
+        this.updatePositions(client);
+        this.updateAudibility(client);
+    }
+
+    /**
+     * Lets a client that was still proving its name in, once the host turns name verification off.
+     */
+    private skipVerification(client: Client) {
+        client.verified = true;
+        client.verificationColor = -1;
+        client.setVerification(true, -1);
+
+        if (client.playerId) {
+            this.setPlayerOf(client, client.playerId);
+            return;
+        }
+
+        state.coordinator.publish(this.key, { type: RoomMessageType.Join, uuid: client.uuid, name: client.name });
+        this.bindClient(client);
+    }
+
+    /**
+     * Tells the players in the lobby what the client that joined their game is,
+     * how to join the voice chat and who still hasn't.
+     */
+    getAnnouncement(): string {
+        const onOff = (value: boolean) => value ? "on" : "off";
+        const adapterClass = BackendAdapters[this.backendModel.backendType] || NoOpBackend;
+
+        // The same link as the web UI's share button, the room key is the region, address or token.
+        const url = PUBLIC_URL + "/" + BackendType[this.backendModel.backendType] + "/"
+            + adapterClass.getRoomKey(this.backendModel) + "/" + this.backendModel.gameCode.toUpperCase();
+
+        // Players that haven't been given a colour aren't in the game yet.
+        const missing = [ ...this.players.values() ]
+            .filter(player => player.color !== -1 && !this.getMemberByPlayer(player.id))
+            .map(player => player.name);
+
+        return [
+            "AUProximity voice chat for " + this.backendModel.gameCode.toUpperCase() + ": " + url,
+            "Voice dropoff " + this.options.falloff
+                + ", vision only " + onOff(this.options.falloffVision)
+                + ", PA systems " + onOff(this.options.paSystems)
+                + ", comms sabotage " + onOff(this.options.commsSabotage) + ".",
+            missing.length
+                ? "Not connected to voice: " + missing.join(", ")
+                : "Everyone is connected to voice."
+        ].join("\n");
+    }
+
+    /**
+     * Sends a client everything it needs to know about the room, either
+     * because it just joined or because it resumed its session.
+     */
+    syncClient(client: Client): void {
+        const player = this.getPlayerOf(client);
+        const others = this.members.filter(c => c !== client);
+
+        // The options decide whether the client calls everyone or sends its voice through the relay.
+        client.setOptions(this.options);
+        client.syncAllClients(others.map(c => ({
+            uuid: c.uuid,
+            name: c.name,
+            reconnecting: !!c.reconnecting,
+            radio: !!c.radio && (this.isSpectating(client) || this.canUseRadio(player)),
+            spectator: !!c.spectator,
+            hidden: !!c.hidden
+        })));
+
+        others.forEach(c => {
+            const p = this.getPlayerOf(c);
+            client.setColorOf(c.uuid, p.color);
+            client.setVentOf(c.uuid, this.getVisibleVent(client, c));
+            client.setCameraOf(c.uuid, p.camera);
+        });
+
         client.setColorOf(client.uuid, player.color);
         client.setGameState(this.state);
         client.setGameFlags(this.flags);
@@ -236,24 +1194,380 @@ export default class Room {
         
         client.setHost(this.hostname);
 
-        client.setOptions(this.options);
+        client.setVerification(client.verified, client.verificationColor);
+
+        this.updateFlags(client);
+        this.updatePositions(client);
+        this.updateAudibility(client);
+    }
+
+    setReconnecting(client: Client, reconnecting: boolean): void {
+        client.reconnecting = reconnecting;
+
+        this.clients.forEach(c => {
+            if (c !== client) c.setReconnectingOf(client.uuid, reconnecting);
+        });
+        state.coordinator.publish(this.key, { type: RoomMessageType.Reconnecting, uuid: client.uuid, reconnecting });
+    }
+
+    /**
+     * Starts or stops a client talking on the impostor radio, which only
+     * living impostors can use and only while the host allows it.
+     */
+    setRadio(client: Client, radio: boolean): void {
+        radio = radio && this.canUseRadio(this.getPlayerOf(client));
+
+        if (client.radio === radio)
+            return;
+
+        client.radio = radio;
+
+        this.sendRadioOf(client);
+        state.coordinator.publish(this.key, { type: RoomMessageType.Radio, uuid: client.uuid, radio });
+
+        this.updateAudibility(client);
+    }
+
+    /**
+     * Tells the clients that can hear the impostor radio whether a client is talking on it,
+     * anyone else could use it to find out who the impostors are.
+     */
+    private sendRadioOf(speaker: ClientBase) {
+        for (const c of this.clients) {
+            if (c === speaker || this.isSpectating(c) || this.canUseRadio(this.getPlayerOf(c))) {
+                c.setRadioOf(speaker.uuid, !!speaker.radio);
+            }
+        }
+    }
+
+    canUseRadio(player: PlayerModel): boolean {
+        return this.options.impostorRadio &&
+            this.state === GameState.Game &&
+            !!(player.flags & PlayerFlag.IsImpostor) &&
+            !(player.flags & PlayerFlag.IsDead);
+    }
+
+    resumeClient(client: Client): void {
+        // The client starts playing everyone over again, so it needs the start of a new recording from each of them.
+        this.relay.remove(client.uuid);
+        this.setReconnecting(client, false);
+        this.syncClient(client);
+
+        if (this.isHost(client)) {
+            this.sendBans(client);
+            this.sendSpectatorRequests(client);
+            client.setMixToken(Room.getMixToken(this.backendModel));
+        }
     }
 
     async removeClient(client: Client, ban: boolean): Promise<void> {
         this.clients.forEach(c => c.removeClient(client.uuid, ban));
         this.clients = this.clients.filter(c => c.uuid !== client.uuid);
+        this.relay.remove(client.uuid);
+        this.setSpectatorRequest(client, false);
+        state.coordinator.publish(this.key, { type: RoomMessageType.Leave, uuid: client.uuid, ban });
         if (ban) {
-            this.bans.add(client.socket.handshake.address);
+            // The client is gone either way, a ban that couldn't be saved only makes it a kick.
+            try {
+                await state.bans.ban(this.key, client.name, client.getBanSignals());
+                this.sendBans();
+            } catch (e) {
+                logger.error("Couldn't ban " + client.name + " from room " + this.key + ". " + (e?.message || e));
+                this.clients.find(c => this.isHost(c))?.sendError("Couldn't save the ban on " + client.name + ", they were only kicked.", false);
+            }
+        }
+        // The owner keeps the backend running while clients on other processes are still using it.
+        if (this.clients.length === 0 && (!this.owner || this.remoteClients.length === 0)) await this.destroy();
+    }
+
+    /**
+     * Asks the process that a remote client is connected to to remove it from the room.
+     */
+    kickRemoteClient(uuid: string, ban: boolean): void {
+        state.coordinator.publish(this.key, { type: RoomMessageType.Kick, uuid, ban });
+    }
+
+    async unban(id: string): Promise<void> {
+        try {
+            if (await state.bans.unban(this.key, id)) {
+                this.sendBans();
+            }
+        } catch (e) {
+            logger.error("Couldn't lift a ban in room " + this.key + ". " + (e?.message || e));
+            this.clients.find(c => this.isHost(c))?.sendError("Couldn't lift the ban, try again in a moment.", false);
         }
-        if (this.clients.length === 0) await this.destroy();
+    }
+
+    /**
+     * Sends the bans for this room to the host, leaving out anything
+     * that could identify the banned player outside of the game.
+     */
+    sendBans(client = this.clients.find(c => this.isHost(c))): void {
+        client?.setBans(state.bans.getBans(this.key).map(ban => ({
+            id: ban.id,
+            name: ban.name,
+            bannedAt: ban.bannedAt
+        })));
     }
 
     setOptions(options: HostOptions, host = false): void {
+        // Without the relay every client gets every voice, so the radio would give the impostors away.
+        if (options.impostorRadio && !options.relay) {
+            options = { ...options, relay: true };
+            host = true;
+        }
+
+        if (!options.relay) {
+            this.relay.reset();
+        }
+
+        const verifying = options.verifyNames && !this.options.verifyNames;
+        const spectatorRoles = options.spectatorRoles !== this.options.spectatorRoles;
+
         this.options = options;
 
         this.clients.forEach(c => {
-            if (c.name !== this.hostname || host) c.setOptions(options);
+            if (!this.isHost(c) || host) c.setOptions(options);
         });
+
+        // Turning it on asks everyone to prove their name again, as anyone could have taken the host's name while it was off.
+        if (verifying && this.requiresVerification()) {
+            this.clients
+                .filter(c => c.verified && !c.spectator)
+                .forEach(c => this.unverifyClient(c));
+        } else if (!options.verifyNames) {
+            this.clients
+                .filter(c => !c.verified && !c.spectator)
+                .forEach(c => this.skipVerification(c));
+        }
+
+        if (spectatorRoles) {
+            this.updateFlags();
+            this.updateVents();
+        }
+
+        this.updateAudibility();
+    }
+
+    /**
+     * Sends clients the flags of each other that they are allowed to know about,
+     * if a client is given then only pairs including that client are updated.
+     */
+    updateFlags(client?: ClientBase): void {
+        for (const viewer of this.clients) {
+            for (const target of this.members) {
+                if (client && viewer !== client && target !== client)
+                    continue;
+
+                viewer.setFlagsOf(target.uuid, this.getVisibleFlags(viewer, target));
+            }
+        }
+    }
+
+    /**
+     * Gets the flags of a player as a client should see them, impostors are only shown to
+     * other impostors and deaths are only shown to ghosts until the game reveals them.
+     * Spectators see who died, and only see the impostors if the host lets them.
+     */
+    getVisibleFlags(viewer: ClientBase, target: ClientBase): PlayerFlag {
+        const me = this.getPlayerOf(viewer);
+        const other = this.getPlayerOf(target);
+
+        if (viewer === target || (this.isSpectating(viewer) && this.options.spectatorRoles))
+            return other.flags;
+
+        if (this.isSpectating(viewer))
+            return other.flags & ~PlayerFlag.IsImpostor;
+
+        let flags = other.flags;
+
+        if (!(me.flags & PlayerFlag.IsImpostor)) {
+            flags &= ~PlayerFlag.IsImpostor;
+        }
+
+        if (
+            !(me.flags & PlayerFlag.IsDead) &&
+            !(target.playerId && this.revealedDeaths.has(target.playerId))
+        ) {
+            flags &= ~PlayerFlag.IsDead;
+        }
+
+        return flags;
+    }
+
+    /**
+     * Sends clients that can see the map where the others are, if a client is given
+     * then only pairs including that client are updated.
+     */
+    updatePositions(client?: ClientBase): void {
+        for (const viewer of this.clients) {
+            if (!this.canSeeMap(viewer))
+                continue;
+
+            for (const target of this.members) {
+                if (target.spectator || (client && viewer !== client && target !== client))
+                    continue;
+
+                viewer.setPositionOf(target.uuid, this.getPlayerOf(target).position);
+            }
+        }
+    }
+
+    /**
+     * Whether a client can see everyone on the map, which would give living players
+     * an advantage so it is limited to the lobby, ghosts and spectators.
+     */
+    canSeeMap(viewer: ClientBase): boolean {
+        return this.state === GameState.Lobby ||
+            this.isSpectating(viewer) ||
+            !!(this.getPlayerOf(viewer).flags & PlayerFlag.IsDead);
+    }
+
+    /**
+     * Sends clients the vents that each other are in, if a client is given then only
+     * pairs including that client are updated.
+     */
+    updateVents(client?: ClientBase): void {
+        for (const viewer of this.clients) {
+            for (const target of this.members) {
+                if (client && viewer !== client && target !== client)
+                    continue;
+
+                viewer.setVentOf(target.uuid, this.getVisibleVent(viewer, target));
+            }
+        }
+    }
+
+    /**
+     * Gets the vent that a player is in as a client should see it, only impostors
+     * can use vents so this is hidden from crewmates, and from spectators unless
+     * the host lets them see the impostors.
+     */
+    getVisibleVent(viewer: ClientBase, target: ClientBase): number {
+        const me = this.getPlayerOf(viewer);
+        const other = this.getPlayerOf(target);
+
+        if (viewer === target || (this.isSpectating(viewer) && this.options.spectatorRoles) || (me.flags & PlayerFlag.IsImpostor))
+            return other.ventid;
+
+        return -1;
+    }
+
+    /**
+     * Recalculates how well clients can hear each other and sends any changes to them,
+     * if a client is given then only pairs including that client are recalculated.
+     */
+    updateAudibility(client?: ClientBase): void {
+        for (const listener of this.clients) {
+            for (const speaker of this.members) {
+                if (listener === speaker)
+                    continue;
+
+                // Spectators following the client hear everyone else from where it is.
+                if (client && listener !== client && speaker !== client && listener.perspective !== client.uuid)
+                    continue;
+
+                listener.setAudibilityOf(speaker.uuid, this.getAudibility(listener, speaker));
+            }
+        }
+    }
+
+    getAudibility(listener: Client, speaker: ClientBase): Audibility {
+        const me = listener.spectator ? this.getPerspectiveOf(listener) : this.getPlayerOf(listener);
+        const other = this.getPlayerOf(speaker);
+
+        if (listener.verified === false || speaker.verified === false) {
+            return Silent;
+        }
+
+        // Spectators can only listen.
+        if (speaker.spectator) {
+            return Silent;
+        }
+
+        // Spectators that aren't following anyone hear everyone.
+        if (!me) {
+            return Global;
+        }
+
+        if (speaker.radio && this.canUseRadio(other)) {
+            // Fellow impostors hear the radio from anywhere, and nobody else hears it at all.
+            return this.canUseRadio(me) ? Global : Silent;
+        }
+
+        const route = this.options.routes[this.state][this.getAudioRole(me)][this.getAudioRole(other)];
+
+        if (route === AudioRoute.Muted) {
+            return Silent;
+        }
+
+        if (
+            this.state !== GameState.Lobby && // Only if the game has started.
+            !(me.flags & PlayerFlag.IsDead) && // Only if I'm not dead.
+            (this.flags & GameFlag.CommsSabotaged) && // Only if communications are sabotaged.
+            this.options.commsSabotage && // Only if comms sabotage should stop voice.
+            (this.state !== GameState.Meeting || this.options.meetingsCommsSabotage) // Only if there's no meeting & you should be able to hear people in meetings
+        ) {
+            return Silent;
+        }
+
+        if (route === AudioRoute.Global) {
+            return Global;
+        }
+
+        if (
+            this.options.paSystems && // Only if PA systems are enabled.
+            this.state === GameState.Game && // Only during the game, meetings have their own routes.
+            (other.flags & PlayerFlag.OnPASystem) // Only if the player is standing at a PA system.
+        ) {
+            return Global;
+        }
+
+        if ((me.flags & PlayerFlag.IsDead) && listener.options.omniscientGhosts) {
+            return Global;
+        }
+
+        const p2 = other.position;
+        const p1 = (me.flags & PlayerFlag.OnCams)
+            ? getCamera(p2, this.settings.map, me.camera) || me.position
+            : me.position;
+
+        if (this.options.colliders && poseCollide(this.settings.map, p1, p2)) {
+            return Silent;
+        }
+
+        const falloff = this.options.falloffVision ? (2 + this.settings.crewmateVision) : this.options.falloff;
+        const distance = Math.hypot(p1.x - p2.x, p1.y - p2.y);
+
+        // clamp above 0, and then below 1
+        const gain = Math.min(Math.max(1 - (distance / falloff), 0), 1);
+
+        if (gain === 0) {
+            return Silent;
+        }
+
+        return {
+            gain: Math.round(gain * 100) / 100,
+            pan: {
+                x: Math.round((p2.x - p1.x) * 10) / 10,
+                y: Math.round((p2.y - p1.y) * 10) / 10,
+                z: 1
+            }
+        };
+    }
+
+    /**
+     * Gets which row or column of the host's routing table applies to a player,
+     * dead impostors are treated as any other ghost.
+     */
+    getAudioRole(player: PlayerModel): AudioRole {
+        if (player.flags & PlayerFlag.IsDead)
+            return AudioRole.Dead;
+
+        if (player.flags & PlayerFlag.IsImpostor)
+            return AudioRole.Impostor;
+
+        return AudioRole.Alive;
     }
 
     private waitForEnd(): Promise<void> {
@@ -286,14 +1600,36 @@ export default class Room {
     }
 
     async destroy(): Promise<void> {
-        if (this.clients.length > 0) {
-            for (const c of this.clients) {
-                await c.leaveRoom();
-            }
+        if (this.destroyed)
             return;
+
+        this.destroyed = true;
+
+        if (this.ownerCheck) clearInterval(this.ownerCheck);
+        clearInterval(this.presenceCheck);
+
+        for (const c of [ ...this.clients ]) {
+            await c.leaveRoom();
         }
         
-        state.allRooms = state.allRooms.filter(room => room !== this);
+        if (state.allRooms.get(this.key) === this) {
+            state.allRooms.delete(this.key);
+        }
+
+        state.coordinator.unsubscribe(this.key);
+
+        if (this.owner) {
+            if (this.remoteClients.length) {
+                state.coordinator.publish(this.key, {
+                    type: RoomMessageType.BackendEvent,
+                    event: BackendEvent.Error,
+                    payload: { err: "The game was closed.", fatal: true }
+                });
+            }
+
+            await state.coordinator.release(this.key);
+            await this.stopRecording();
+        }
         
         if (this.backendAdapter.destroyed)
             return;
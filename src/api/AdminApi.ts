@@ -0,0 +1,156 @@
+import express, { NextFunction, Request, Response } from "express";
+import crypto from "crypto";
+
+import { BackendType } from "../types/models/Backends";
+import { GameState } from "../types/enums/GameState";
+
+import Room from "../Room";
+import GameRecorder from "../GameRecorder";
+import { state } from "../main";
+import logger from "../util/logger";
+
+/**
+ * Only lets a request through if it has the admin token from the
+ * environment as a bearer token in the authorization header.
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+    const expected = Buffer.from("Bearer " + process.env.ADMIN_TOKEN);
+    const received = Buffer.from(req.headers.authorization || "");
+
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+        res.status(401).json({ error: "Invalid admin token." });
+        return;
+    }
+
+    next();
+}
+
+function getRoom(req: Request, res: Response): Room|undefined {
+    const room = state.allRooms.get(req.params.key);
+
+    if (!room) {
+        res.status(404).json({ error: "Couldn't find a room with that key." });
+        return;
+    }
+
+    return room;
+}
+
+function summarizeRoom(room: Room) {
+    return {
+        key: room.key,
+        backendType: BackendType[room.backendModel.backendType],
+        gameCode: room.backendModel.gameCode,
+        host: room.hostname,
+        clients: room.members.length,
+        state: GameState[room.state],
+        uptime: Math.floor((Date.now() - room.createdAt) / 1000)
+    };
+}
+
+const router = express.Router();
+
+router.use(authenticate);
+
+router.get("/rooms", (req, res) => {
+    res.json([...state.allRooms.values()].map(summarizeRoom));
+});
+
+router.get("/rooms/:key", (req, res) => {
+    const room = getRoom(req, res);
+
+    if (!room)
+        return;
+
+    res.json({
+        ...summarizeRoom(room),
+        flags: room.flags,
+        options: room.options,
+        settings: room.settings,
+        players: room.members.map(member => {
+            const player = room.getPlayerOf(member);
+
+            // Addresses are only known for clients connected to this process.
+            const client = room.clients.find(c => c === member);
+
+            return {
+                uuid: member.uuid,
+                name: player.name,
+                verified: member.verified,
+                address: client?.socket.handshake.address,
+                color: player.color,
+                flags: player.flags,
+                ventid: player.ventid,
+                camera: player.camera,
+                position: player.position
+            };
+        })
+    });
+});
+
+router.post("/rooms/:key/clients/:uuid/:action(kick|ban)", async (req, res) => {
+    const room = getRoom(req, res);
+
+    if (!room)
+        return;
+
+    const member = room.members.find(member => member.uuid === req.params.uuid);
+
+    if (!member) {
+        res.status(404).json({ error: "Couldn't find a client with that uuid in the room." });
+        return;
+    }
+
+    const ban = req.params.action === "ban";
+    const client = room.clients.find(c => c === member);
+
+    logger.info("Admin " + (ban ? "banned " : "kicked ") + member.name + " from room " + room.key + ".");
+
+    if (client) {
+        await room.removeClient(client, ban);
+    } else {
+        room.kickRemoteClient(member.uuid, ban);
+    }
+
+    res.status(204).end();
+});
+
+router.get("/recordings", async (req, res) => {
+    try {
+        res.json(await GameRecorder.list());
+    } catch (e) {
+        logger.error("Couldn't list recordings. " + (e?.message || e));
+        res.status(500).json({ error: "Couldn't list the recordings." });
+    }
+});
+
+router.delete("/rooms/:key", async (req, res) => {
+    const room = getRoom(req, res);
+
+    if (!room)
+        return;
+
+    const force = req.query.force === "true";
+
+    logger.info("Admin is closing room " + room.key + (force ? " now." : " once its game ends."));
+
+    if (force) {
+        try {
+            await room.destroy();
+            res.json(summarizeRoom(room));
+        } catch (e) {
+            logger.error("Couldn't close room " + room.key + ". " + (e?.message || e));
+            res.status(500).json({ error: "Couldn't close the room." });
+        }
+        return;
+    }
+
+    // Waiting for a game in progress to end can take far longer than a request is allowed to.
+    room.gracefulDestroy().catch(e => {
+        logger.error("Couldn't close room " + room.key + ". " + (e?.message || e));
+    });
+
+    res.status(202).json(summarizeRoom(room));
+});
+
+export default router;
@@ -0,0 +1,81 @@
+import express from "express";
+import { MapID } from "@skeldjs/constant";
+
+import { CameraPositions } from "../types/constants/CameraPositions";
+import { ColliderMaps, LobbyColliders } from "../types/constants/ColliderMaps";
+import { PlayerPose } from "../Client";
+
+// Space left around the walls of a map so that players next to them aren't drawn on the edge.
+const Padding = 2;
+
+/**
+ * Gets the area that a map's walls and cameras cover in collider path coordinates,
+ * which put game coordinates (x, y) at (x + 40, 40 - y).
+ */
+function getBounds(colliders: string[], cameras: PlayerPose[]) {
+    const xs: number[] = [];
+    const ys: number[] = [];
+
+    for (const collider of colliders) {
+        for (const token of collider.split(" ")) {
+            const [ x, y ] = token.split(",").map(parseFloat);
+
+            if (!isNaN(x) && !isNaN(y)) {
+                xs.push(x);
+                ys.push(y);
+            }
+        }
+    }
+
+    for (const camera of cameras) {
+        xs.push(camera.x + 40);
+        ys.push(40 - camera.y);
+    }
+
+    if (!xs.length)
+        return { x: 0, y: 0, width: 80, height: 80 };
+
+    const x = Math.min(...xs) - Padding;
+    const y = Math.min(...ys) - Padding;
+
+    return {
+        x,
+        y,
+        width: Math.max(...xs) + Padding - x,
+        height: Math.max(...ys) + Padding - y
+    };
+}
+
+const router = express.Router();
+
+router.use((req, res, next) => {
+    // Maps are the same for everyone, so the webui can fetch them from a development server too.
+    res.set("Access-Control-Allow-Origin", "*");
+    next();
+});
+
+// The lobby looks the same whichever map the game is on.
+router.get("/lobby", (req, res) => {
+    res.json({
+        bounds: getBounds(LobbyColliders, []),
+        colliders: LobbyColliders,
+        cameras: []
+    });
+});
+
+router.get("/:map", (req, res) => {
+    const map = parseInt(req.params.map) as MapID;
+
+    if (!ColliderMaps[map]) {
+        res.status(404).json({ error: "There is no map with that id." });
+        return;
+    }
+
+    res.json({
+        bounds: getBounds(ColliderMaps[map], CameraPositions[map]),
+        colliders: ColliderMaps[map],
+        cameras: CameraPositions[map]
+    });
+});
+
+export default router;
@@ -1,8 +1,9 @@
-import { ColorID } from "@skeldjs/constant";
+import { ColorID, MapID } from "@skeldjs/constant";
 
 import { EventEmitter } from "events";
 import util from "util";
 import chalk from "chalk";
+import _ from "lodash";
 
 import logger from "../util/logger";
 
@@ -13,6 +14,7 @@ import { PlayerFlag } from "../types/enums/PlayerFlags";
 import { GameState } from "../types/enums/GameState";
 import { GameFlag } from "../types/enums/GameFlags";
 import { PlayerPose } from "../Client";
+import { isInPASystemZone } from "../types/constants/PASystemZones";
 
 export enum LogMode {
     Log = "log",
@@ -23,11 +25,83 @@ export enum LogMode {
     Error = "error"
 }
 
+/**
+ * A player as a backend knows them, backends that have a stable id for each player
+ * should give it so that players keep their identity when they change their name.
+ */
+export type PlayerRef = string | { id: number|string; name: string };
+
+export function identifyPlayer(player: PlayerRef): { id: string; name: string } {
+    if (typeof player === "string") {
+        return { id: "name:" + player.toLowerCase().trim(), name: player };
+    }
+
+    return { id: "id:" + player.id, name: player.name };
+}
+
+/**
+ * Throttles the moves of each player separately, a single throttle for every
+ * player would only let one player's move through in each window.
+ */
+export class PlayerPoseThrottle {
+    private emit: (player: PlayerRef, position: PlayerPose) => void;
+    private wait: number;
+    private throttles = new Map<string, _.DebouncedFunc<(player: PlayerRef, position: PlayerPose) => void>>();
+
+    constructor(emit: (player: PlayerRef, position: PlayerPose) => void, wait: number) {
+        this.emit = emit;
+        this.wait = wait;
+    }
+
+    push(player: PlayerRef, position: PlayerPose): void {
+        const { id } = identifyPlayer(player);
+        let throttled = this.throttles.get(id);
+
+        if (!throttled) {
+            throttled = _.throttle(this.emit, this.wait);
+            this.throttles.set(id, throttled);
+        }
+
+        throttled(player, position);
+    }
+
+    cancel(): void {
+        this.throttles.forEach(throttled => throttled.cancel());
+        this.throttles.clear();
+    }
+}
+
+export interface BackendAdapterClass {
+    new (backendModel: BackendModel): BackendAdapter;
+
+    /**
+     * Returns the part of a backend model that identifies which server a game is on,
+     * two models with the same game code and room key are always the same game.
+     */
+    getRoomKey(backendModel: BackendModel): string;
+
+    /**
+     * Whether the backend reports player colours, which is how clients
+     * prove that they are the player whose name they joined with.
+     */
+    readonly supportsNameVerification: boolean;
+}
+
 // Actual backend class
 export abstract class BackendAdapter extends EventEmitter {
     abstract backendModel: BackendModel;
     destroyed: boolean;
     gameID: string;
+
+    map: MapID = MapID.TheSkeld;
+    gameState: GameState = GameState.Lobby;
+    playersOnPASystem: Map<string, PlayerRef> = new Map;
+
+    /**
+     * Gets the colours that clients were asked to switch to, which a backend
+     * mustn't take for a player of its own. The room that runs the backend sets it.
+     */
+    getReservedColors: () => ColorID[] = () => [];
     
     protected constructor() {
         super();
@@ -42,27 +116,91 @@ export abstract class BackendAdapter extends EventEmitter {
         logger[mode](chalk.grey("[" + BackendType[this.backendModel.backendType] + " " + this.gameID + "]"), formatted);
     }
 
-    emitPlayerPose(name: string, position: PlayerPose ): void {
-        this.emit(BackendEvent.PlayerPose, { name, position });
+    emitPlayerPose(player: PlayerRef, position: PlayerPose ): void {
+        this.emit(BackendEvent.PlayerPose, { ...identifyPlayer(player), position });
+        this.updatePASystem(player, position);
+    }
+
+    /**
+     * Sets or unsets the PA system flag for a player depending on whether
+     * they moved into or out of one of the map's PA system zones.
+     */
+    private updatePASystem(player: PlayerRef, position: PlayerPose): void {
+        if (this.gameState !== GameState.Game)
+            return;
+
+        const { id } = identifyPlayer(player);
+        const onPASystem = isInPASystemZone(this.map, position);
+
+        if (onPASystem === this.playersOnPASystem.has(id))
+            return;
+
+        if (onPASystem) {
+            this.playersOnPASystem.set(id, player);
+        } else {
+            this.playersOnPASystem.delete(id);
+        }
+
+        this.emitPlayerFlags(player, PlayerFlag.OnPASystem, onPASystem);
+    }
+
+    emitPlayerVent(player: PlayerRef, ventid: number): void {
+        this.emit(BackendEvent.PlayerVent, { ...identifyPlayer(player), ventid });
+    }
+
+    emitPlayerColor(player: PlayerRef, color: ColorID): void {
+        this.emit(BackendEvent.PlayerColor, { ...identifyPlayer(player), color });
+    }
+
+    emitPlayerName(player: PlayerRef): void {
+        this.emit(BackendEvent.PlayerName, identifyPlayer(player));
     }
 
-    emitPlayerVent(name: string, ventid: number): void {
-        this.emit(BackendEvent.PlayerVent, { name, ventid });
+    emitPlayerLeave(player: PlayerRef): void {
+        this.emit(BackendEvent.PlayerLeave, identifyPlayer(player));
     }
 
-    emitPlayerColor(name: string, color: ColorID): void {
-        this.emit(BackendEvent.PlayerColor, { name, color });
+    emitChat(player: PlayerRef, message: string): void {
+        this.emit(BackendEvent.Chat, { ...identifyPlayer(player), message });
     }
 
-    emitPlayerFlags(name: string, flags: PlayerFlag, set: boolean): void {
-        this.emit(BackendEvent.PlayerFlags, { name, flags, set });
+    emitJoinedLobby(): void {
+        this.emit(BackendEvent.JoinedLobby, {});
     }
 
-    emitHostChange(name: string): void {
-        this.emit(BackendEvent.HostChange, { name });
+    emitHostCommand(command: string, args: string[]): void {
+        this.emit(BackendEvent.HostCommand, { command, args });
+    }
+
+    /**
+     * Sends a message to the game's chat, backends that can't chat only log it.
+     */
+    async say(message: string, error = false): Promise<void> {
+        this.log(error ? LogMode.Warn : LogMode.Info, "Can't chat in this game, didn't say: " + message);
+    }
+
+    emitPlayerFlags(player: PlayerRef, flags: PlayerFlag, set: boolean): void {
+        this.emit(BackendEvent.PlayerFlags, { ...identifyPlayer(player), flags, set });
+    }
+
+    emitPlayerCamera(player: PlayerRef, camera: number): void {
+        this.emit(BackendEvent.PlayerCamera, { ...identifyPlayer(player), camera });
+    }
+
+    emitHostChange(player: PlayerRef): void {
+        this.emit(BackendEvent.HostChange, identifyPlayer(player));
     }
 
     emitGameState(state: GameState): void {
+        this.gameState = state;
+
+        if (state !== GameState.Game) {
+            for (const [ , player ] of this.playersOnPASystem) {
+                this.emitPlayerFlags(player, PlayerFlag.OnPASystem, false);
+            }
+            this.playersOnPASystem.clear();
+        }
+
         this.emit(BackendEvent.GameState, { state });
     }
 
@@ -71,6 +209,7 @@ export abstract class BackendAdapter extends EventEmitter {
     }
 
     emitSettingsUpdate(settings: GameSettings): void {
+        this.map = settings.map;
         this.emit(BackendEvent.SettingsUpdate, { settings });
     }
 
@@ -0,0 +1,223 @@
+import { Vector2 } from "@skeldjs/util";
+import { Socket } from "socket.io";
+import crypto from "crypto";
+
+import { BepInExBackendModel } from "../types/models/Backends";
+
+import { BackendAdapter, LogMode, PlayerPoseThrottle } from "./Backend";
+import { GameSettings } from "../types/models/ClientOptions";
+import { GameState } from "../types/enums/GameState";
+import { PlayerFlag } from "../types/enums/PlayerFlags";
+import { GameFlag } from "../types/enums/GameFlags";
+import { isInteger, isName, isNumber, isObject } from "../util/validation";
+
+// Web users can see the token, so the secret that it is made from has to be too long to guess from it.
+const MinSecretLength = 32;
+
+export default class BepInExBackend extends BackendAdapter {
+    static Backends: Map<string, BepInExBackend> = new Map;
+
+    backendModel: BepInExBackendModel;
+    socket?: Socket;
+
+    constructor(backendModel: BepInExBackendModel) {
+        super();
+
+        this.backendModel = backendModel;
+        this.gameID = this.backendModel.gameCode;
+    }
+
+    static supportsNameVerification = true;
+
+    static getRoomKey(backendModel: BepInExBackendModel): string {
+        return backendModel.token;
+    }
+
+    /**
+     * Gets the token that web users join a mod's game with, which is a hash of the secret
+     * that the mod connects with so that sharing the token doesn't let anyone else connect as the mod.
+     */
+    static getToken(secret: string): string {
+        return crypto.createHash("sha256").update(secret).digest("hex");
+    }
+
+    /**
+     * Socket.io middleware for the BepInEx namespace, only lets a mod connect
+     * if there is a room waiting for the token made from its secret.
+     */
+    static authenticate(socket: Socket, next: (err?: Error) => void): void {
+        const secret = socket.handshake.auth?.secret;
+
+        if (typeof secret !== "string" || secret.length < MinSecretLength) {
+            return next(new Error("The mod's secret has to be at least " + MinSecretLength + " characters long."));
+        }
+
+        if (!BepInExBackend.Backends.has(BepInExBackend.getToken(secret))) {
+            return next(new Error("No AUProximity room is using this mod's token."));
+        }
+
+        next();
+    }
+
+    static handleConnection(socket: Socket): void {
+        const backend = BepInExBackend.Backends.get(BepInExBackend.getToken(socket.handshake.auth.secret));
+
+        if (!backend) {
+            socket.disconnect(true);
+            return;
+        }
+
+        backend.attach(socket);
+    }
+
+    throttledEmitPlayerMove = new PlayerPoseThrottle((player, position) => this.emitPlayerPose(player, position), 100);
+
+    initialize(): void {
+        this.destroyed = false;
+
+        if (BepInExBackend.Backends.has(this.backendModel.token)) {
+            this.log(LogMode.Warn, "Another room was already using this token, replacing it.");
+        }
+
+        BepInExBackend.Backends.set(this.backendModel.token, this);
+        this.log(LogMode.Info, "BepInEx Backend initialized, waiting for the mod to connect.");
+    }
+
+    attach(socket: Socket): void {
+        // Only a mod with the same secret gets this far, so it is the same mod reconnecting.
+        if (this.socket) {
+            this.log(LogMode.Warn, "The mod connected again, dropping the old connection.");
+            this.socket.disconnect(true);
+        }
+
+        this.socket = socket;
+        this.log(LogMode.Success, "BepInEx mod connected.");
+
+        this.handle(socket, BepInExSocketEvents.HostChange, (payload: { name: string }) => {
+            this.log(LogMode.Info, "Host changed to " + payload.name + ".");
+            this.emitHostChange(payload.name);
+        });
+
+        this.handle(socket, BepInExSocketEvents.SettingsUpdate, (payload: { settings: GameSettings }) => {
+            this.emitSettingsUpdate(payload.settings);
+        });
+
+        this.handle(socket, BepInExSocketEvents.GameState, (payload: { state: GameState }) => {
+            this.emitGameState(payload.state);
+        });
+
+        this.handle(socket, BepInExSocketEvents.PlayerMove, (payload: { name: string; position: Vector2 }) => {
+            this.throttledEmitPlayerMove.push(payload.name, payload.position);
+        });
+
+        this.handle(socket, BepInExSocketEvents.PlayerVent, (payload: { name: string; ventid: number }) => {
+            this.emitPlayerVent(payload.name, payload.ventid);
+        });
+
+        this.handle(socket, BepInExSocketEvents.PlayerColor, (payload: { name: string; color: number }) => {
+            this.emitPlayerColor(payload.name, payload.color);
+        });
+
+        this.handle(socket, BepInExSocketEvents.SetImpostors, (payload: { names: string[] }) => {
+            for (const name of payload.names) {
+                this.emitPlayerFlags(name, PlayerFlag.IsImpostor, true);
+            }
+        });
+
+        this.handle(socket, BepInExSocketEvents.PlayerDeath, (payload: { name: string }) => {
+            this.emitPlayerFlags(payload.name, PlayerFlag.IsDead, true);
+        });
+
+        this.handle(socket, BepInExSocketEvents.PlayerCameras, (payload: { name: string; active: boolean }) => {
+            this.emitPlayerFlags(payload.name, PlayerFlag.OnCams, payload.active);
+
+            if (!payload.active) {
+                this.emitPlayerCamera(payload.name, -1);
+            }
+        });
+
+        this.handle(socket, BepInExSocketEvents.PlayerCamera, (payload: { name: string; camera: number }) => {
+            this.emitPlayerCamera(payload.name, payload.camera);
+        });
+
+        this.handle(socket, BepInExSocketEvents.CommsSabotage, (payload: { active: boolean }) => {
+            if (payload.active) {
+                this.log(LogMode.Info, "Communications was sabotaged.");
+            } else {
+                this.log(LogMode.Info, "Communications was repaired.");
+            }
+            this.emitGameFlags(GameFlag.CommsSabotaged, payload.active);
+        });
+
+        socket.on("disconnect", () => {
+            if (this.socket !== socket)
+                return;
+
+            this.socket = undefined;
+            this.log(LogMode.Warn, "BepInEx mod disconnected.");
+            this.emitError("The BepInEx mod disconnected, waiting for it to reconnect.", false);
+        });
+    }
+
+    /**
+     * Listens for an event from the mod, dropping frames that don't have the shape that the event needs
+     * so that a broken or outdated mod can't put values into the room that it doesn't expect.
+     */
+    private handle<T>(socket: Socket, event: BepInExSocketEvents, handler: (payload: T) => void) {
+        socket.on(event, (payload: unknown) => {
+            if (!isObject(payload) || !PayloadShapes[event](payload)) {
+                this.log(LogMode.Warn, "Dropped a malformed " + event + " event from the mod.");
+                return;
+            }
+
+            handler(payload as unknown as T);
+        });
+    }
+
+    destroy(): void {
+        if (this.destroyed)
+            return;
+
+        this.destroyed = true;
+        this.throttledEmitPlayerMove.cancel();
+
+        if (BepInExBackend.Backends.get(this.backendModel.token) === this) {
+            BepInExBackend.Backends.delete(this.backendModel.token);
+        }
+
+        this.socket?.disconnect(true);
+        this.socket = undefined;
+        this.log(LogMode.Info, "Destroyed BepInEx Backend.");
+    }
+}
+
+export enum BepInExSocketEvents {
+    HostChange = "hostchange",
+    SettingsUpdate = "settingsupdate",
+    GameState = "gamestate",
+    PlayerMove = "playermove",
+    PlayerVent = "playervent",
+    PlayerColor = "playercolor",
+    SetImpostors = "setimpostors",
+    PlayerDeath = "playerdeath",
+    PlayerCameras = "playercameras",
+    PlayerCamera = "playercamera",
+    CommsSabotage = "commssabotage"
+}
+
+// What the payload of each event from the mod has to contain.
+const PayloadShapes: Record<BepInExSocketEvents, (payload: Record<string, unknown>) => boolean> = {
+    [BepInExSocketEvents.HostChange]: payload => isName(payload.name),
+    [BepInExSocketEvents.SettingsUpdate]: ({ settings }) =>
+        isObject(settings) && isInteger(settings.map) && isNumber(settings.crewmateVision),
+    [BepInExSocketEvents.GameState]: payload => isInteger(payload.state) && GameState[payload.state as number] !== undefined,
+    [BepInExSocketEvents.PlayerMove]: ({ name, position }) =>
+        isName(name) && isObject(position) && isNumber(position.x) && isNumber(position.y),
+    [BepInExSocketEvents.PlayerVent]: payload => isName(payload.name) && isInteger(payload.ventid),
+    [BepInExSocketEvents.PlayerColor]: payload => isName(payload.name) && isInteger(payload.color),
+    [BepInExSocketEvents.SetImpostors]: payload => Array.isArray(payload.names) && payload.names.every(isName),
+    [BepInExSocketEvents.PlayerDeath]: payload => isName(payload.name),
+    [BepInExSocketEvents.PlayerCameras]: payload => isName(payload.name) && typeof payload.active === "boolean",
+    [BepInExSocketEvents.PlayerCamera]: payload => isName(payload.name) && isInteger(payload.camera),
+    [BepInExSocketEvents.CommsSabotage]: payload => typeof payload.active === "boolean"
+};
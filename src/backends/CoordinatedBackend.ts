@@ -0,0 +1,39 @@
+import { BackendModel } from "../types/models/Backends";
+import { BackendEvent } from "../types/enums/BackendEvents";
+
+import { BackendAdapter, LogMode } from "./Backend";
+
+/**
+ * Stands in for the real backend adapter of a room that another server process owns,
+ * it only re-emits the events that the owning process relays to it.
+ */
+export default class CoordinatedBackend extends BackendAdapter {
+    backendModel: BackendModel;
+
+    constructor(backendModel: BackendModel) {
+        super();
+
+        this.backendModel = backendModel;
+        this.gameID = this.backendModel.gameCode;
+    }
+
+    initialize(): void {
+        this.destroyed = false;
+        this.log(LogMode.Info, "Coordinated Backend initialized, another process is running this game's backend.");
+    }
+
+    relay(event: BackendEvent, payload: unknown): void {
+        if (this.destroyed)
+            return;
+
+        this.emit(event, payload);
+    }
+
+    destroy(): void {
+        if (this.destroyed)
+            return;
+
+        this.destroyed = true;
+        this.log(LogMode.Info, "Destroyed Coordinated Backend.");
+    }
+}
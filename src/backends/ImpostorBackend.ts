@@ -1,12 +1,11 @@
 import { Vector2 } from "@skeldjs/util";
 import { HubConnection, HubConnectionBuilder } from "@microsoft/signalr";
-import _ from "lodash";
 
 import { ImpostorBackendModel } from "../types/models/Backends";
 
 import { IMPOSTOR_BACKEND_PORT } from "../consts";
 
-import { BackendAdapter, LogMode } from "./Backend";
+import { BackendAdapter, LogMode, PlayerPoseThrottle } from "./Backend";
 import { GameSettings } from "../types/models/ClientOptions";
 import { GameState } from "../types/enums/GameState";
 import { PlayerFlag } from "../types/enums/PlayerFlags";
@@ -23,7 +22,13 @@ export default class ImpostorBackend extends BackendAdapter {
         this.gameID = this.backendModel.ip + ":" + IMPOSTOR_BACKEND_PORT;
     }
 
-    throttledEmitPlayerMove = _.throttle(this.emitPlayerPose, 300);
+    static supportsNameVerification = false;
+
+    static getRoomKey(backendModel: ImpostorBackendModel): string {
+        return backendModel.ip.toLowerCase().trim();
+    }
+
+    throttledEmitPlayerMove = new PlayerPoseThrottle((player, position) => this.emitPlayerPose(player, position), 300);
 
     initialize(): void {
         try {
@@ -44,7 +49,7 @@ export default class ImpostorBackend extends BackendAdapter {
             });
 
             this.connection.on(ImpostorSocketEvents.PlayerMove, (name: string, pose: Vector2) => {
-                this.throttledEmitPlayerMove(name, pose);
+                this.throttledEmitPlayerMove.push(name, pose);
             });
 
             this.connection.on(ImpostorSocketEvents.MeetingCalled, () => {
@@ -55,6 +60,10 @@ export default class ImpostorBackend extends BackendAdapter {
                 this.emitPlayerFlags(name, PlayerFlag.IsDead, true);
             });
 
+            this.connection.on(ImpostorSocketEvents.ChatMessage, (name: string, message: string) => {
+                this.emitChat(name, message);
+            });
+
             this.connection.on(ImpostorSocketEvents.CommsSabotage, (fix: boolean) => {
                 if (fix) {
                     this.log(LogMode.Info, "Communications was repaired.");
@@ -80,6 +89,7 @@ export default class ImpostorBackend extends BackendAdapter {
     }
 
     async destroy(): Promise<void> {
+        this.throttledEmitPlayerMove.cancel();
         this.log(LogMode.Info, "Destroyed Impostor Backend.");
         return await this.connection.stop();
     }
@@ -93,6 +103,7 @@ export enum ImpostorSocketEvents {
     PlayerMove = "PlayerMove",
     MeetingCalled = "MeetingCalled",
     PlayerExiled = "PlayerExiled",
+    ChatMessage = "ChatMessage",
     CommsSabotage = "CommsSabotage",
     GameEnd = "GameEnd"
 }
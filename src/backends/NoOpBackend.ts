@@ -16,6 +16,12 @@ export default class NoOpBackend extends BackendAdapter {
         this.gameID = this.backendModel.gameCode;
     }
 
+    static supportsNameVerification = false;
+
+    static getRoomKey(): string {
+        return "";
+    }
+
     initialize(): void {
         this.log(LogMode.Info, "Initialized NoOp backend.");
     }
@@ -0,0 +1,274 @@
+import { Vector2 } from "@skeldjs/util";
+import WebSocket from "ws";
+
+import { NodePolusBackendModel } from "../types/models/Backends";
+
+import { NODEPOLUS_BACKEND_PORT } from "../consts";
+
+import { BackendAdapter, LogMode, PlayerPoseThrottle, PlayerRef } from "./Backend";
+import { GameSettings } from "../types/models/ClientOptions";
+import { GameState } from "../types/enums/GameState";
+import { PlayerFlag } from "../types/enums/PlayerFlags";
+import { GameFlag } from "../types/enums/GameFlags";
+import { isInteger, isName, isNumber, isObject } from "../util/validation";
+
+export default class NodePolusBackend extends BackendAdapter {
+    backendModel: NodePolusBackendModel;
+    connection!: WebSocket;
+
+    constructor(backendModel: NodePolusBackendModel) {
+        super();
+
+        this.backendModel = backendModel;
+        this.gameID = this.backendModel.ip + ":" + NODEPOLUS_BACKEND_PORT;
+    }
+
+    static supportsNameVerification = true;
+
+    static getRoomKey(backendModel: NodePolusBackendModel): string {
+        return backendModel.ip.toLowerCase().trim();
+    }
+
+    throttledEmitPlayerMove = new PlayerPoseThrottle((player, position) => this.emitPlayerPose(player, position), 300);
+
+    initialize(): void {
+        this.destroyed = false;
+
+        try {
+            this.connection = new WebSocket(`ws://${this.backendModel.ip}:${NODEPOLUS_BACKEND_PORT}/auproximity`);
+
+            this.connection.on("open", () => {
+                this.send(NodePolusSocketEvents.TrackGame, { gameCode: this.backendModel.gameCode });
+            });
+
+            this.connection.on("message", (data: WebSocket.Data) => {
+                try {
+                    this.handleMessage(JSON.parse(data.toString()));
+                } catch (err) {
+                    this.log(LogMode.Warn, `Received malformed message from NodePolus: ${err}`);
+                }
+            });
+
+            this.connection.on("error", err => {
+                this.log(LogMode.Error, `Error in NodePolusBackend: ${err}`);
+            });
+
+            this.connection.on("close", () => {
+                if (this.destroyed)
+                    return;
+
+                this.log(LogMode.Warn, "Connection to NodePolus was closed.");
+                this.emitError("Lost connection to the NodePolus server.", true);
+            });
+
+            this.log(LogMode.Info, `NodePolus Backend initialized at ws://${this.backendModel.ip}:${NODEPOLUS_BACKEND_PORT}/auproximity`);
+        } catch (err) {
+            this.log(LogMode.Error, `Error in NodePolusBackend: ${err}`);
+        }
+    }
+
+    /**
+     * Handles a message from the NodePolus plugin, messages that don't have the shape
+     * that their type needs are dropped so that a broken plugin can't put bad values into the room.
+     */
+    handleMessage(message: unknown): void {
+        if (!isValidMessage(message)) {
+            this.log(LogMode.Warn, "Dropped a malformed message from NodePolus.");
+            return;
+        }
+
+        switch (message.type) {
+            case NodePolusSocketEvents.GameNotFound:
+                this.log(LogMode.Fatal, "Couldn't find game.");
+                this.emitError("Couldn't find the game on the NodePolus server, make sure that you entered the code correctly.", true);
+                break;
+            case NodePolusSocketEvents.HostChange:
+                this.log(LogMode.Info, "Host changed to " + message.data.name + ".");
+                this.emitHostChange(playerRef(message.data));
+                break;
+            case NodePolusSocketEvents.SettingsUpdate:
+                this.emitSettingsUpdate(message.data.settings);
+                break;
+            case NodePolusSocketEvents.GameStarted:
+                this.emitGameState(GameState.Game);
+                break;
+            case NodePolusSocketEvents.PlayerName:
+                this.emitPlayerName(playerRef(message.data));
+                break;
+            case NodePolusSocketEvents.PlayerLeave:
+                this.emitPlayerLeave(playerRef(message.data));
+                break;
+            case NodePolusSocketEvents.PlayerMove:
+                this.throttledEmitPlayerMove.push(playerRef(message.data), message.data.position);
+                break;
+            case NodePolusSocketEvents.PlayerVent:
+                this.emitPlayerVent(playerRef(message.data), message.data.ventid);
+                break;
+            case NodePolusSocketEvents.PlayerColor:
+                this.emitPlayerColor(playerRef(message.data), message.data.color);
+                break;
+            case NodePolusSocketEvents.SetImpostors:
+                for (const player of message.data.players) {
+                    this.emitPlayerFlags(playerRef(player), PlayerFlag.IsImpostor, true);
+                }
+                break;
+            case NodePolusSocketEvents.PlayerMurdered:
+            case NodePolusSocketEvents.PlayerExiled:
+                this.emitPlayerFlags(playerRef(message.data), PlayerFlag.IsDead, true);
+                break;
+            case NodePolusSocketEvents.CamerasJoin:
+                this.emitPlayerFlags(playerRef(message.data), PlayerFlag.OnCams, true);
+                break;
+            case NodePolusSocketEvents.CamerasLeave:
+                this.emitPlayerFlags(playerRef(message.data), PlayerFlag.OnCams, false);
+                this.emitPlayerCamera(playerRef(message.data), -1);
+                break;
+            case NodePolusSocketEvents.CameraChange:
+                this.emitPlayerCamera(playerRef(message.data), message.data.camera);
+                break;
+            case NodePolusSocketEvents.ChatMessage:
+                this.emitChat(playerRef(message.data), message.data.message);
+                break;
+            case NodePolusSocketEvents.MeetingCalled:
+                this.emitGameState(GameState.Meeting);
+                break;
+            case NodePolusSocketEvents.MeetingEnded:
+                this.emitGameState(GameState.Game);
+                break;
+            case NodePolusSocketEvents.CommsSabotage:
+                if (message.data.fix) {
+                    this.log(LogMode.Info, "Communications was repaired.");
+                    this.emitGameFlags(GameFlag.CommsSabotaged, false);
+                } else {
+                    this.log(LogMode.Info, "Communications was sabotaged.");
+                    this.emitGameFlags(GameFlag.CommsSabotaged, true);
+                }
+                break;
+            case NodePolusSocketEvents.GameEnd:
+                this.log(LogMode.Info, "Game ended.");
+                this.emitGameState(GameState.Lobby);
+                break;
+        }
+    }
+
+    send(type: NodePolusSocketEvents, data: unknown): void {
+        if (this.connection.readyState !== WebSocket.OPEN)
+            return;
+
+        this.connection.send(JSON.stringify({ type, data }));
+    }
+
+    async destroy(): Promise<void> {
+        if (this.destroyed)
+            return;
+
+        this.destroyed = true;
+        this.throttledEmitPlayerMove.cancel();
+        this.connection?.close();
+        this.log(LogMode.Info, "Destroyed NodePolus Backend.");
+    }
+}
+
+export enum NodePolusSocketEvents {
+    TrackGame = "TrackGame",
+    GameNotFound = "GameNotFound",
+    HostChange = "HostChange",
+    SettingsUpdate = "SettingsUpdate",
+    GameStarted = "GameStarted",
+    PlayerName = "PlayerName",
+    PlayerLeave = "PlayerLeave",
+    PlayerMove = "PlayerMove",
+    PlayerVent = "PlayerVent",
+    PlayerColor = "PlayerColor",
+    SetImpostors = "SetImpostors",
+    PlayerMurdered = "PlayerMurdered",
+    PlayerExiled = "PlayerExiled",
+    CamerasJoin = "CamerasJoin",
+    CamerasLeave = "CamerasLeave",
+    CameraChange = "CameraChange",
+    ChatMessage = "ChatMessage",
+    MeetingCalled = "MeetingCalled",
+    MeetingEnded = "MeetingEnded",
+    CommsSabotage = "CommsSabotage",
+    GameEnd = "GameEnd"
+}
+
+/**
+ * A player as the plugin sends them, the id is the player's client id so that
+ * players that share a name or change it are still told apart.
+ */
+export interface NodePolusPlayer {
+    id: number;
+    name: string;
+}
+
+export type NodePolusMessage =
+    | { type: NodePolusSocketEvents.TrackGame; data: { gameCode: string } }
+    | { type: NodePolusSocketEvents.GameNotFound; data: Record<string, never> }
+    | { type: NodePolusSocketEvents.HostChange; data: NodePolusPlayer }
+    | { type: NodePolusSocketEvents.SettingsUpdate; data: { settings: GameSettings } }
+    | { type: NodePolusSocketEvents.GameStarted; data: Record<string, never> }
+    | { type: NodePolusSocketEvents.PlayerName; data: NodePolusPlayer }
+    | { type: NodePolusSocketEvents.PlayerLeave; data: NodePolusPlayer }
+    | { type: NodePolusSocketEvents.PlayerMove; data: NodePolusPlayer & { position: Vector2 } }
+    | { type: NodePolusSocketEvents.PlayerVent; data: NodePolusPlayer & { ventid: number } }
+    | { type: NodePolusSocketEvents.PlayerColor; data: NodePolusPlayer & { color: number } }
+    | { type: NodePolusSocketEvents.SetImpostors; data: { players: NodePolusPlayer[] } }
+    | { type: NodePolusSocketEvents.PlayerMurdered; data: NodePolusPlayer }
+    | { type: NodePolusSocketEvents.PlayerExiled; data: NodePolusPlayer }
+    | { type: NodePolusSocketEvents.CamerasJoin; data: NodePolusPlayer }
+    | { type: NodePolusSocketEvents.CamerasLeave; data: NodePolusPlayer }
+    | { type: NodePolusSocketEvents.CameraChange; data: NodePolusPlayer & { camera: number } }
+    | { type: NodePolusSocketEvents.ChatMessage; data: NodePolusPlayer & { message: string } }
+    | { type: NodePolusSocketEvents.MeetingCalled; data: Record<string, never> }
+    | { type: NodePolusSocketEvents.MeetingEnded; data: Record<string, never> }
+    | { type: NodePolusSocketEvents.CommsSabotage; data: { fix: boolean } }
+    | { type: NodePolusSocketEvents.GameEnd; data: Record<string, never> };
+
+function playerRef(player: NodePolusPlayer): PlayerRef {
+    return { id: player.id, name: player.name };
+}
+
+function isPlayer(value: unknown): boolean {
+    return isObject(value) && isInteger(value.id) && isName(value.name);
+}
+
+function hasNothing(): boolean {
+    return true;
+}
+
+// What the data of each message from the plugin has to contain.
+const DataShapes: Record<NodePolusSocketEvents, (data: Record<string, unknown>) => boolean> = {
+    [NodePolusSocketEvents.TrackGame]: data => isName(data.gameCode),
+    [NodePolusSocketEvents.GameNotFound]: hasNothing,
+    [NodePolusSocketEvents.HostChange]: isPlayer,
+    [NodePolusSocketEvents.SettingsUpdate]: ({ settings }) =>
+        isObject(settings) && isInteger(settings.map) && isNumber(settings.crewmateVision),
+    [NodePolusSocketEvents.GameStarted]: hasNothing,
+    [NodePolusSocketEvents.PlayerName]: isPlayer,
+    [NodePolusSocketEvents.PlayerLeave]: isPlayer,
+    [NodePolusSocketEvents.PlayerMove]: data =>
+        isPlayer(data) && isObject(data.position) && isNumber(data.position.x) && isNumber(data.position.y),
+    [NodePolusSocketEvents.PlayerVent]: data => isPlayer(data) && isInteger(data.ventid),
+    [NodePolusSocketEvents.PlayerColor]: data => isPlayer(data) && isInteger(data.color),
+    [NodePolusSocketEvents.SetImpostors]: data => Array.isArray(data.players) && data.players.every(isPlayer),
+    [NodePolusSocketEvents.PlayerMurdered]: isPlayer,
+    [NodePolusSocketEvents.PlayerExiled]: isPlayer,
+    [NodePolusSocketEvents.CamerasJoin]: isPlayer,
+    [NodePolusSocketEvents.CamerasLeave]: isPlayer,
+    [NodePolusSocketEvents.CameraChange]: data => isPlayer(data) && isInteger(data.camera),
+    [NodePolusSocketEvents.ChatMessage]: data => isPlayer(data) && typeof data.message === "string",
+    [NodePolusSocketEvents.MeetingCalled]: hasNothing,
+    [NodePolusSocketEvents.MeetingEnded]: hasNothing,
+    [NodePolusSocketEvents.CommsSabotage]: data => typeof data.fix === "boolean",
+    [NodePolusSocketEvents.GameEnd]: hasNothing
+};
+
+function isValidMessage(message: unknown): message is NodePolusMessage {
+    if (!isObject(message) || !isObject(message.data))
+        return false;
+
+    const shape = DataShapes[message.type as NodePolusSocketEvents];
+
+    return !!shape && shape(message.data);
+}
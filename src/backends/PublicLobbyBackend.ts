@@ -13,12 +13,14 @@ import * as skeldjs from "@skeldjs/core";
 const tb = text.tb;
 
 import logger from "../util/logger";
+import { authTokenDuration, publicLobbyJoinAttempts, publicLobbyJoinFailures } from "../util/metrics";
 
 import { PublicLobbyBackendModel } from "../types/models/Backends";
 
 import {
     BackendAdapter,
-    LogMode
+    LogMode,
+    PlayerRef
 } from "./Backend";
 
 import { PlayerFlag } from "../types/enums/PlayerFlags";
@@ -31,6 +33,15 @@ import { GameFlag } from "../types/enums/GameFlags";
 // I'm keeping this comment here because it shows how stupid I am that it is in fact 2021 and not 2020.
 const GAME_VERSION = "2021.4.2.0";
 
+// Chat messages from the host that start with this are commands for AUProximity.
+const COMMAND_PREFIX = "/aup";
+
+// How long to wait for more chat messages before spawning to send them, so that a burst of them needs a single re-join.
+const ChatBatchDelay = 1000;
+
+// The colours that every version of the game has.
+const GameColors: skeldjs.ColorID[] = [ ...Array(12).keys() ];
+
 const colours = {
     [skeldjs.ColorID.Red]: chalk.redBright,
     [skeldjs.ColorID.Blue]: chalk.blue,
@@ -61,6 +72,14 @@ function fmtName(player: skeldjs.PlayerData|undefined) {
     return consoleClr(name) + " " + chalk.grey("(" + id + ")");
 }
 
+/**
+ * Players are identified by their id in the game data, which stays
+ * the same when they change their name.
+ */
+function playerRef(data: { playerId: number; name: string }): PlayerRef {
+    return { id: data.playerId, name: data.name };
+}
+
 const sleep = ms => new Promise<void>(resolve => setTimeout(resolve, ms));
 const lookupDns = util.promisify(dns.lookup);
 
@@ -92,6 +111,16 @@ export default class PublicLobbyBackend extends BackendAdapter {
 
     settings: GameSettings;
 
+    private chatting: Promise<void> = Promise.resolve();
+    private pendingChat: string[] = [];
+
+    // Chat that is sent with the player that the client spawns while joining, which is only set while it is spawned.
+    private spawnedChat?: string[];
+    private greeted = false;
+
+    // Set when a game ends, as the cached objects are from before it and the lobby's have to be spawned for again.
+    private staleCaches = false;
+
     constructor(backendModel: PublicLobbyBackendModel) {
         super();
         
@@ -103,6 +132,12 @@ export default class PublicLobbyBackend extends BackendAdapter {
         };
     }
 
+    static supportsNameVerification = true;
+
+    static getRoomKey(backendModel: PublicLobbyBackendModel): string {
+        return backendModel.region;
+    }
+
     log(mode: LogMode, format: string, ...params: unknown[]): void {
         const formatted = util.format(format, ...params);
 
@@ -211,14 +246,20 @@ export default class PublicLobbyBackend extends BackendAdapter {
             this.emitError("Couldn't join the game after " + max_attempts + " attempts, make sure that the game hasn't started and there is a spot for the client.", true);
             return false;
         }
+
+        publicLobbyJoinAttempts.inc();
         
         if (!this.client) {
             this.client = new SkeldjsClient(GAME_VERSION, { allowHost: false });
         }
 
-        if (!this.players_cache || !this.components_cache || !this.global_cache) {
+        if (this.staleCaches || !this.players_cache || !this.components_cache || !this.global_cache) {
             const err = await this.initialSpawn(attempt >= max_attempts);
 
+            if (err !== ConnectionErrorCode.None) {
+                publicLobbyJoinFailures.inc({ code: ConnectionErrorCode[err] });
+            }
+
             if (err === ConnectionErrorCode.GameNotFound) {
                 this.log(LogMode.Fatal, "Couldn't find game.");
                 this.emitError("Couldn't find the game, make sure that you entered the code correctly and you are using the correct region.", true);
@@ -266,6 +307,7 @@ export default class PublicLobbyBackend extends BackendAdapter {
             await this.client.identify("Roundcar", this.authToken);
         } catch (e) {
             const err = e as Error;
+            publicLobbyJoinFailures.inc({ code: ConnectionErrorCode[ConnectionErrorCode.FailedToConnect] });
             this.server++;
             this.server = this.server % this.master.length;
             attempt++;
@@ -284,10 +326,13 @@ export default class PublicLobbyBackend extends BackendAdapter {
             attempt++;
 
             if (err.message.includes("Could not find the game you're looking for.")) {
+                publicLobbyJoinFailures.inc({ code: ConnectionErrorCode[ConnectionErrorCode.GameNotFound] });
                 this.log(LogMode.Fatal, e.toString());
                 return false;
             }
 
+            publicLobbyJoinFailures.inc({ code: ConnectionErrorCode[ConnectionErrorCode.FailedToJoin] });
+
             this.log(LogMode.Warn, "Failed to join game (" + err.message + "), Retrying " + (max_attempts - attempt) + " more times.");
             this.emitError(err.message + ". Retrying " + (max_attempts - attempt) + " more times.", false);
             return await this.doJoin(max_attempts, attempt);
@@ -332,7 +377,7 @@ export default class PublicLobbyBackend extends BackendAdapter {
         if (this.client.host && this.client.host.data) {
             this.log(LogMode.Success, "Found host: " + fmtName(this.client.host));
 
-            this.emitHostChange(this.client.host.data.name);
+            this.emitHostChange(playerRef(this.client.host.data));
         }
         return true;
     }
@@ -411,9 +456,14 @@ export default class PublicLobbyBackend extends BackendAdapter {
     }
 
     async tryGetAuthToken(ip: [ string, number ], cur_attempt = 0): Promise<number> {
+        const endTimer = authTokenDuration.startTimer();
+
         try {
-            return await this.getAuthToken(ip);
+            const authToken = await this.getAuthToken(ip);
+            endTimer({ result: "success" });
+            return authToken;
         } catch (e) {
+            endTimer({ result: "failure" });
             cur_attempt++;
             const remaining = 5 - cur_attempt;
             
@@ -482,7 +532,7 @@ export default class PublicLobbyBackend extends BackendAdapter {
                 const { player, position } = ev.data;
 
                 if (player?.data) {
-                    this.emitPlayerPose(player.data.name, position);
+                    this.emitPlayerPose(playerRef(player.data), position);
                 }
             });
 
@@ -491,7 +541,7 @@ export default class PublicLobbyBackend extends BackendAdapter {
 
                 if (player?.data) {
                     this.log(LogMode.Log, "Got SnapTo for", fmtName(player), "to x: " + position.x + " y: " + position.y);
-                    this.emitPlayerPose(player.data.name, position);
+                    this.emitPlayerPose(playerRef(player.data), position);
                 } else {
                     this.log(LogMode.Warn, "Got snapto, but there was no data.");
                 }
@@ -515,10 +565,11 @@ export default class PublicLobbyBackend extends BackendAdapter {
                 this.log(LogMode.Info, "Game ended, clearing cache & re-joining..");
 
                 await this.disconnect();
+                this.staleCaches = true;
                 await sleep(500);
-                
-                if (!await this.doJoin())
-                    return;
+
+                // Joining again spawns to get the lobby from the host, which is when the lobby is told about the voice chat again.
+                await this.doJoin();
             });
 
             this.client.on("player.sethost", async ev => {
@@ -546,7 +597,7 @@ export default class PublicLobbyBackend extends BackendAdapter {
 
                 if (host && host.data) {
                     this.log(LogMode.Info, fmtName(host), " is now the host.");
-                    this.emitHostChange(host.data.name);
+                    this.emitHostChange(playerRef(host.data));
                 } else {
                     this.log(LogMode.Warn, "Host changed, but there was no data.");
                 }
@@ -605,8 +656,12 @@ export default class PublicLobbyBackend extends BackendAdapter {
 
             this.client.on("player.setname", ev => {
                 const { player } = ev.data;
+                if (this.isMe(player))
+                    return;
+
                 if (player?.data) {
                     this.log(LogMode.Info, fmtName(player), "updated their name.");
+                    this.emitPlayerName(playerRef(player.data));
                 } else {
                     if (player) {
                         this.log(LogMode.Warn, "Name was set for " + player.id + ", but there was no data.");
@@ -616,11 +671,35 @@ export default class PublicLobbyBackend extends BackendAdapter {
                 }
             });
 
+            this.client.on("player.chat", ev => {
+                const { player, message } = ev.data;
+                // The client's own messages are already in the chat of the web UI's host.
+                if (this.isMe(player))
+                    return;
+
+                if (player?.data) {
+                    const [ prefix, command, ...args ] = message.trim().split(/\s+/);
+
+                    if (prefix.toLowerCase() === COMMAND_PREFIX && player.id === this.client?.host?.id) {
+                        this.log(LogMode.Info, fmtName(player), "used the command \"" + message + "\".");
+                        this.emitHostCommand((command || "help").toLowerCase(), args);
+                        return;
+                    }
+
+                    this.emitChat(playerRef(player.data), message);
+                } else {
+                    this.log(LogMode.Warn, "Received a chat message from a player, but there was no data.");
+                }
+            });
+
             this.client.on("player.setcolor", ev => {
                 const { player, color } = ev.data;
+                if (this.isMe(player))
+                    return;
+
                 if (player?.data) {
                     this.log(LogMode.Info, fmtName(player), "set their colour to " + skeldjs.ColorID[color] + ".");
-                    this.emitPlayerColor(player.data.name, color);
+                    this.emitPlayerColor(playerRef(player.data), color);
                 } else {
                     if (player) {
                         this.log(LogMode.Warn, "Color was set for " + player.id + ", but there was no data.");
@@ -658,7 +737,7 @@ export default class PublicLobbyBackend extends BackendAdapter {
                 this.log(LogMode.Info, "Meeting ended.");
                 if (ejected) {
                     if (ejected.data) {
-                        this.emitPlayerFlags(ejected.data.name, PlayerFlag.IsDead, true);
+                        this.emitPlayerFlags(playerRef(ejected.data), PlayerFlag.IsDead, true);
                         this.log(LogMode.Log, fmtName(ejected), "was voted off");
                     } else {
                         this.log(LogMode.Warn, "Someone was voted off, but there was no data for them.");
@@ -674,7 +753,7 @@ export default class PublicLobbyBackend extends BackendAdapter {
                 const { player, victim } = ev.data;
                 if (victim && victim.data) {
                     this.log(LogMode.Info, fmtName(player), "murdered", fmtName(victim) + ".");
-                    this.emitPlayerFlags(victim.data.name, PlayerFlag.IsDead, true);
+                    this.emitPlayerFlags(playerRef(victim.data), PlayerFlag.IsDead, true);
                 } else {
                     this.log(LogMode.Warn, "Someone got murdered, but there was no data.");
                 }
@@ -684,7 +763,7 @@ export default class PublicLobbyBackend extends BackendAdapter {
                 const { player, ventid } = ev.data;
                 if (player && player.data) {
                     this.log(LogMode.Log, fmtName(player), "entered vent " + this.getVentName(ventid) + ".");
-                    this.emitPlayerVent(player.data.name, ventid);
+                    this.emitPlayerVent(playerRef(player.data), ventid);
                 } else {
                     this.log(LogMode.Warn, "Someone entered a vent, but there was no data.");
                 }
@@ -694,7 +773,7 @@ export default class PublicLobbyBackend extends BackendAdapter {
                 const { player, ventid } = ev.data;
                 if (player && player.data) {
                     this.log(LogMode.Log, fmtName(player), "exited vent " + this.getVentName(ventid) + ".");
-                    this.emitPlayerVent(player.data.name, -1);
+                    this.emitPlayerVent(playerRef(player.data), -1);
                 } else {
                     this.log(LogMode.Warn, "Someone exited a vent, but there was no data.");
                 }
@@ -706,7 +785,7 @@ export default class PublicLobbyBackend extends BackendAdapter {
                     const player = impostors[i];
                     if (player?.data) {
                         this.log(LogMode.Info, fmtName(player), "was made impostor.");
-                        this.emitPlayerFlags(player.data.name, PlayerFlag.IsImpostor, true);
+                        this.emitPlayerFlags(playerRef(player.data), PlayerFlag.IsImpostor, true);
                     } else {
                         this.log(LogMode.Warn, "Someone was made impostor, but there was no data.");
                     }
@@ -722,7 +801,8 @@ export default class PublicLobbyBackend extends BackendAdapter {
 
                 if (playerData) {
                     this.log(LogMode.Info, "Removed", fmtName(player));
-                    this.emitPlayerColor(playerData.name, -1);
+                    // The game gives the player's id to whoever joins next.
+                    this.emitPlayerLeave(playerRef(playerData));
                 }
             });
 
@@ -730,7 +810,7 @@ export default class PublicLobbyBackend extends BackendAdapter {
                 const { player } = ev.data;
                 if (player?.data) {
                     this.log(LogMode.Info, fmtName(player), "went onto cameras.");
-                    this.emitPlayerFlags(player.data.name, PlayerFlag.OnCams, true);
+                    this.emitPlayerFlags(playerRef(player.data), PlayerFlag.OnCams, true);
                 } else {
                     this.log(LogMode.Warn, "Someone went onto cameras, but there was no data.");
                 }
@@ -740,7 +820,7 @@ export default class PublicLobbyBackend extends BackendAdapter {
                 const { player } = ev.data;
                 if (player?.data) {
                     this.log(LogMode.Info, fmtName(player), "went off cameras.");
-                    this.emitPlayerFlags(player.data.name, PlayerFlag.OnCams, false);
+                    this.emitPlayerFlags(playerRef(player.data), PlayerFlag.OnCams, false);
                 } else {
                     this.log(LogMode.Warn, "Someone went off cameras, but there was no data.");
                 }
@@ -800,7 +880,7 @@ export default class PublicLobbyBackend extends BackendAdapter {
 
                     const gamedata = component as skeldjs.GameData;
                     for (const [ , player ] of gamedata.players) {
-                        if (player.name) _this.emitPlayerColor(player.name, player.color);
+                        if (player.name) _this.emitPlayerColor(playerRef(player), player.color);
                     }
                 } else if (component.classname === "PlayerControl") {
                     playersSpawned.push(component.ownerid);
@@ -916,32 +996,168 @@ export default class PublicLobbyBackend extends BackendAdapter {
         this.log(LogMode.Info, "Map is on " + skeldjs.MapID[settings.map]);
         
         if (this.client.host && this.client.host.data) {
-            this.emitHostChange(this.client.host.data.name);
+            this.emitHostChange(playerRef(this.client.host.data));
         }
 
         this.log(LogMode.Success, "Got spawns and settings.");
         this.log(LogMode.Info, "Cleaning up and preparing for re-join..");
 
         for (const [ , player ] of this.client.players) {
-            if (player && player.data) {
-                this.emitPlayerColor(player.data.name, player.data.color);
+            if (player && player.data && !this.isMe(player)) {
+                this.emitPlayerColor(playerRef(player.data), player.data.color);
             }
         }
 
         const formatted = tb(text.bold(), text.color("blue"), text.align(text.Align.Center))
             .text("<sprite=0> AUProximity is ready. <sprite=0>", true);
 
-        await this.client.me.control.checkName("ㆍ");
-        await this.client.me.control.checkColor(skeldjs.ColorID.Blue);
-        await this.client.me.wait("player.setname");
-        await this.client.me.control.chat(formatted.toString());
+        // What the room says once the client is in the lobby goes out with this player, rather than needing one of its own.
+        this.spawnedChat = this.greeted ? [] : [ formatted.toString() ];
+        this.greeted = true;
+        this.emitJoinedLobby();
 
-        await sleep(100);
+        const messages = this.spawnedChat;
+        this.spawnedChat = undefined;
+
+        if (messages.length) {
+            try {
+                await this.client.me.control.checkName("ㆍ");
+                await this.client.me.control.checkColor(this.getChatColor());
+                await this.client.me.wait("player.setname");
+                await this.client.me.control.chat(messages.join("\n"));
+            } catch (e) {
+                this.log(LogMode.Error, "Couldn't send a chat message: " + e);
+            }
+
+            await sleep(100);
+        }
         
         await this.disconnect();
+        this.staleCaches = false;
         return ConnectionErrorCode.None;
     }
 
+    /**
+     * Sends a message to the lobby's chat. Messages that come in together are sent
+     * at once, as sending any of them needs the client to spawn a player and re-join.
+     */
+    async say(message: string, error = false): Promise<void> {
+        const formatted = tb(text.color(error ? "red" : "blue"))
+            .text(message, true);
+
+        if (this.spawnedChat) {
+            this.spawnedChat.push(formatted.toString());
+            return;
+        }
+
+        this.pendingChat.push(formatted.toString());
+
+        // The first message of a burst waits for the rest, which are sent along with it.
+        if (this.pendingChat.length === 1) {
+            this.chatting = this.chatting
+                .then(() => sleep(ChatBatchDelay))
+                .then(() => this.sayInLobby(this.pendingChat.splice(0).join("\n")))
+                .catch(e => {
+                    // Only this burst is lost, the chain has to keep going for the messages after it.
+                    this.pendingChat = [];
+                    this.log(LogMode.Error, "Couldn't send a chat message: " + (e?.message || e));
+                });
+        }
+
+        return this.chatting;
+    }
+
+    /**
+     * The client watches the lobby without a player so that it isn't dealt into the game, and the
+     * game only takes chat from players, so to chat it has to spawn one and re-join without it again.
+     */
+    private async sayInLobby(message: string): Promise<void> {
+        if (!this.client?.me || this.destroyed)
+            return;
+
+        if (this.gameState !== GameState.Lobby) {
+            this.log(LogMode.Warn, "Can't chat while a game is going on, didn't say: " + message);
+            return;
+        }
+
+        this.log(LogMode.Info, "Spawning to send a chat message..");
+        this.client.spawnSelf();
+
+        if (!await this.awaitOwnPlayer()) {
+            this.log(LogMode.Warn, "Didn't get a player to chat with, didn't say: " + message);
+            return;
+        }
+
+        try {
+            await this.client.me.control.checkName("ㆍ");
+            await this.client.me.control.checkColor(this.getChatColor());
+            await this.client.me.wait("player.setname");
+            await this.client.me.control.chat(message);
+        } catch (e) {
+            this.log(LogMode.Error, "Couldn't send a chat message: " + e);
+        }
+
+        await sleep(100);
+
+        this.log(LogMode.Info, "Sent a chat message, re-joining..");
+        await this.disconnect();
+        await sleep(500);
+
+        // A failed re-join has already raised a fatal error, which closes the room, so every message
+        // risks the room. Batching them in say() and sending the lobby's announcement while the
+        // client is spawned to join anyway keeps the number of re-joins down.
+        await this.doJoin();
+    }
+
+    private isMe(player: skeldjs.PlayerData|undefined): boolean {
+        return !!player && !!this.client && player.id === this.client.clientid;
+    }
+
+    /**
+     * Picks a colour for the client's own player that nobody has,
+     * leaving alone the colours that clients were asked to switch to.
+     */
+    private getChatColor(): skeldjs.ColorID {
+        const taken = new Set<number>(this.getReservedColors());
+
+        for (const [ , player ] of this.client?.players || []) {
+            if (player.data && !this.isMe(player)) {
+                taken.add(player.data.color);
+            }
+        }
+
+        return GameColors.find(color => !taken.has(color)) ?? skeldjs.ColorID.Blue;
+    }
+
+    private awaitOwnPlayer(): Promise<boolean> {
+        return new Promise<boolean>(resolve => {
+            const client = this.client;
+
+            if (!client)
+                return resolve(false);
+
+            let finished = false;
+
+            const timeout = setTimeout(() => {
+                finished = true;
+                resolve(false);
+            }, 5000);
+
+            client.on("component.spawn", function onSpawn(ev) {
+                const { component } = ev.data;
+
+                // A spawn after giving up only removes the listener.
+                if (!finished && (component.classname !== "PlayerControl" || component.ownerid !== client.clientid))
+                    return;
+
+                client.off("component.spawn", onSpawn);
+                clearTimeout(timeout);
+                finished = true;
+                resolve(true);
+            });
+        });
+    }
+
     async destroy(): Promise<void> {
         if (this.destroyed)
             return;
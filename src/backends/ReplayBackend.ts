@@ -0,0 +1,66 @@
+import { BackendType, ReplayBackendModel } from "../types/models/Backends";
+
+import GameRecorder from "../GameRecorder";
+import { sleep } from "../util/sleep";
+
+import { BackendAdapter, LogMode } from "./Backend";
+
+/**
+ * Plays back a recorded game on its original timeline, so that clients can join
+ * as the players in it and hear what each of them could have heard.
+ */
+export default class ReplayBackend extends BackendAdapter {
+    backendModel: ReplayBackendModel;
+
+    constructor(backendModel: ReplayBackendModel) {
+        super();
+
+        this.backendModel = backendModel;
+        this.gameID = this.backendModel.recording;
+    }
+
+    static supportsNameVerification = false;
+
+    static getRoomKey(backendModel: ReplayBackendModel): string {
+        return backendModel.recording;
+    }
+
+    initialize(): void {
+        this.destroyed = false;
+        this.play().catch(e => {
+            this.log(LogMode.Error, "Couldn't play the recording. " + (e?.message || e));
+            this.emitError("Couldn't play the recording, make sure that its name is correct.", true);
+        });
+    }
+
+    private async play() {
+        const { header, events } = await GameRecorder.read(this.backendModel.recording);
+
+        if (header.backendType === BackendType.Replay)
+            throw new Error("Recordings of replays can't be played.");
+
+        this.log(LogMode.Info, "Playing " + events.length + " events recorded in " + header.gameCode + ".");
+
+        const start = Date.now();
+
+        for (const [ time, event, payload ] of events) {
+            const delay = start + time - Date.now();
+
+            if (delay > 0) await sleep(delay);
+            if (this.destroyed) return;
+
+            this.emit(event, payload);
+        }
+
+        this.log(LogMode.Info, "Finished playing the recording.");
+        this.emitError("The recording has finished playing.", false);
+    }
+
+    destroy(): void {
+        if (this.destroyed)
+            return;
+
+        this.destroyed = true;
+        this.log(LogMode.Info, "Destroyed Replay Backend.");
+    }
+}
@@ -0,0 +1,53 @@
+export interface BanSignals {
+    address?: string;
+    clientId?: string;
+}
+
+export interface BanModel {
+    id: string;
+    name: string;
+    signals: BanSignals;
+    bannedAt: number;
+}
+
+/**
+ * Keeps the bans made by hosts so that they outlive the room that they were made in,
+ * each scope (a room key) has its own list of bans.
+ */
+export interface BanStore {
+    getBans(scope: string): BanModel[];
+
+    /**
+     * Checks whether a client with this name and these signals matches a ban in a scope.
+     */
+    isBanned(scope: string, name: string, signals: BanSignals): boolean;
+
+    ban(scope: string, name: string, signals: BanSignals): Promise<BanModel>;
+
+    /**
+     * Removes a ban, resolves to false if there was no ban with that id in the scope.
+     */
+    unban(scope: string, id: string): Promise<boolean>;
+}
+
+/**
+ * Checks whether a ban matches a client. An address alone is never enough, as everyone behind
+ * the same proxy or network shares it, so it only counts along with the name that was banned.
+ */
+export function matchesBan(ban: BanModel, name: string, signals: BanSignals): boolean {
+    if (signals.clientId && ban.signals.clientId === signals.clientId)
+        return true;
+
+    return !!signals.address && ban.signals.address === signals.address &&
+        ban.name.toLowerCase().trim() === name.toLowerCase().trim();
+}
+
+/**
+ * Gets the address that a client connected from. Each trusted proxy adds the address that it was
+ * connected from to the end of the forwarded-for header, anything before those could be made up.
+ */
+export function getClientAddress(address: string, forwardedFor: string|undefined, trustedProxies: number): string {
+    const chain = [ ...(forwardedFor ? forwardedFor.split(",").map(hop => hop.trim()) : []), address ];
+
+    return chain[Math.max(chain.length - 1 - trustedProxies, 0)];
+}
@@ -0,0 +1,82 @@
+import fs from "fs";
+import { v4 } from "uuid";
+
+import { BanModel, BanSignals, BanStore, matchesBan } from "./BanStore";
+
+import logger from "../util/logger";
+
+/**
+ * Keeps bans in a file on disk, for when there is only a single server process.
+ */
+export default class FileBanStore implements BanStore {
+    public readonly filename: string;
+
+    private bans: Record<string, BanModel[]> = {};
+    private saving: Promise<void> = Promise.resolve();
+
+    constructor(filename: string) {
+        this.filename = filename;
+
+        try {
+            if (fs.existsSync(filename)) {
+                this.bans = JSON.parse(fs.readFileSync(filename, "utf8"));
+            }
+        } catch (e) {
+            logger.error("Couldn't read bans from " + filename + ", starting with no bans. " + (e?.message || e));
+        }
+    }
+
+    getBans(scope: string): BanModel[] {
+        return this.bans[scope] || [];
+    }
+
+    isBanned(scope: string, name: string, signals: BanSignals): boolean {
+        return this.getBans(scope).some(ban => matchesBan(ban, name, signals));
+    }
+
+    async ban(scope: string, name: string, signals: BanSignals): Promise<BanModel> {
+        const ban: BanModel = {
+            id: v4(),
+            name,
+            signals,
+            bannedAt: Date.now()
+        };
+
+        this.bans[scope] = [ ...this.getBans(scope), ban ];
+        await this.save();
+
+        return ban;
+    }
+
+    async unban(scope: string, id: string): Promise<boolean> {
+        const bans = this.getBans(scope);
+        const remaining = bans.filter(ban => ban.id !== id);
+
+        if (remaining.length === bans.length)
+            return false;
+
+        if (remaining.length) {
+            this.bans[scope] = remaining;
+        } else {
+            delete this.bans[scope];
+        }
+
+        await this.save();
+        return true;
+    }
+
+    private save(): Promise<void> {
+        // Chain writes so that an older list can never overwrite a newer one.
+        this.saving = this.saving.then(() => this.write());
+
+        return this.saving;
+    }
+
+    private async write(): Promise<void> {
+        try {
+            await fs.promises.writeFile(this.filename, JSON.stringify(this.bans, null, 4));
+        } catch (e) {
+            logger.error("Couldn't save bans to " + this.filename + ". " + (e?.message || e));
+        }
+    }
+}
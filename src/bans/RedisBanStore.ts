@@ -0,0 +1,130 @@
+import { createClient, RedisClient } from "redis";
+import { v4 } from "uuid";
+
+import { BanModel, BanSignals, BanStore, matchesBan } from "./BanStore";
+
+import { sendCommand } from "../util/redis";
+import logger from "../util/logger";
+
+// Every ban is a field of the same hash under its id, so that processes never overwrite each other's bans.
+const BansKey = "auproximity:bans";
+const BansChannel = "auproximity:bans";
+
+type BanMessage =
+    | { scope: string; ban: BanModel }
+    | { scope: string; id: string };
+
+/**
+ * Keeps bans in redis so that every server process shares them. Each process keeps a copy of them
+ * in memory to check clients against as they join, and tells the others when it adds or removes one.
+ */
+export default class RedisBanStore implements BanStore {
+    private client: RedisClient;
+    private subClient: RedisClient;
+    private bans: Record<string, BanModel[]> = {};
+
+    constructor(uri: string) {
+        this.client = createClient(uri);
+        this.subClient = this.client.duplicate();
+
+        for (const client of [ this.client, this.subClient ]) {
+            client.on("error", (err: Error) => {
+                logger.error("Error in the ban store: " + err.message);
+            });
+        }
+
+        this.subClient.on("message", (channel: string, data: string) => {
+            this.handleMessage(data);
+        });
+        this.subClient.subscribe(BansChannel);
+        this.load();
+    }
+
+    getBans(scope: string): BanModel[] {
+        return this.bans[scope] || [];
+    }
+
+    isBanned(scope: string, name: string, signals: BanSignals): boolean {
+        return this.getBans(scope).some(ban => matchesBan(ban, name, signals));
+    }
+
+    async ban(scope: string, name: string, signals: BanSignals): Promise<BanModel> {
+        const ban: BanModel = {
+            id: v4(),
+            name,
+            signals,
+            bannedAt: Date.now()
+        };
+
+        this.add(scope, ban);
+        await sendCommand(this.client, "hset", BansKey, ban.id, JSON.stringify({ scope, ban }));
+        this.publish({ scope, ban });
+
+        return ban;
+    }
+
+    async unban(scope: string, id: string): Promise<boolean> {
+        if (!this.remove(scope, id))
+            return false;
+
+        await sendCommand(this.client, "hdel", BansKey, id);
+        this.publish({ scope, id });
+
+        return true;
+    }
+
+    private async load() {
+        try {
+            const stored = await sendCommand(this.client, "hgetall", BansKey) as Record<string, string>|null;
+
+            for (const data of Object.values(stored || {})) {
+                const { scope, ban } = JSON.parse(data) as { scope: string; ban: BanModel };
+                this.add(scope, ban);
+            }
+        } catch (e) {
+            logger.error("Couldn't load the bans from redis, starting with no bans. " + (e?.message || e));
+        }
+    }
+
+    private add(scope: string, ban: BanModel) {
+        // Bans that this process made come back to it from the channel.
+        if (this.getBans(scope).some(existing => existing.id === ban.id))
+            return;
+
+        this.bans[scope] = [ ...this.getBans(scope), ban ];
+    }
+
+    private remove(scope: string, id: string): boolean {
+        const bans = this.getBans(scope);
+        const remaining = bans.filter(ban => ban.id !== id);
+
+        if (remaining.length === bans.length)
+            return false;
+
+        if (remaining.length) {
+            this.bans[scope] = remaining;
+        } else {
+            delete this.bans[scope];
+        }
+
+        return true;
+    }
+
+    private publish(message: BanMessage) {
+        this.client.publish(BansChannel, JSON.stringify(message));
+    }
+
+    private handleMessage(data: string) {
+        try {
+            const message = JSON.parse(data) as BanMessage;
+
+            if ("ban" in message) {
+                this.add(message.scope, message.ban);
+            } else {
+                this.remove(message.scope, message.id);
+            }
+        } catch (e) {
+            logger.warn("Received malformed message from the ban store: " + (e?.message || e));
+        }
+    }
+}
@@ -1 +1,13 @@
+import crypto from "crypto";
+
 export const IMPOSTOR_BACKEND_PORT = 22044;
+export const NODEPOLUS_BACKEND_PORT = 22045;
+export const RECORDINGS_DIR = process.env.RECORDINGS_DIR || "";
+export const PUBLIC_URL = process.env.PUBLIC_URL || "https://aupro.xyz";
+// Signs the links to each room's stream mix, set it when running several processes so that they agree.
+export const MIX_SECRET = process.env.MIX_SECRET || crypto.randomBytes(32).toString("hex");
+// How many proxies in front of the server to trust the X-Forwarded-For header of, anyone can send the header otherwise.
+export const TRUSTED_PROXIES = parseInt(process.env.TRUSTED_PROXIES || "0") || 0;
+// How many seconds a client that lost its connection keeps its place for, 30 unless set to a number that isn't negative.
+const resumeGracePeriod = parseInt(process.env.RESUME_GRACE_PERIOD || "");
+export const RESUME_GRACE_PERIOD = (isNaN(resumeGracePeriod) || resumeGracePeriod < 0 ? 30 : resumeGracePeriod) * 1000;
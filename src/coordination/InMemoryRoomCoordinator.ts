@@ -0,0 +1,72 @@
+import { EventEmitter } from "events";
+import { v4 } from "uuid";
+
+import { RoomCoordinator, RoomMessage } from "./RoomCoordinator";
+
+export interface InMemoryCoordinatorHub {
+    owners: Map<string, string>;
+    messages: EventEmitter;
+}
+
+/**
+ * Coordinates rooms within a single process, which is what the server does when it
+ * isn't scaled out. Several coordinators sharing a hub act like separate processes.
+ */
+export default class InMemoryRoomCoordinator implements RoomCoordinator {
+    static DefaultHub: InMemoryCoordinatorHub = {
+        owners: new Map,
+        messages: new EventEmitter
+    };
+
+    hub: InMemoryCoordinatorHub;
+    id: string;
+
+    private listeners = new Map<string, (origin: string, message: RoomMessage) => void>();
+
+    constructor(hub = InMemoryRoomCoordinator.DefaultHub) {
+        this.hub = hub;
+        this.id = v4();
+    }
+
+    async claim(key: string): Promise<boolean> {
+        const owner = this.hub.owners.get(key);
+
+        if (owner && owner !== this.id)
+            return false;
+
+        this.hub.owners.set(key, this.id);
+        return true;
+    }
+
+    async release(key: string): Promise<void> {
+        if (this.hub.owners.get(key) === this.id) {
+            this.hub.owners.delete(key);
+        }
+    }
+
+    publish(key: string, message: RoomMessage): void {
+        this.hub.messages.emit(key, this.id, message);
+    }
+
+    subscribe(key: string, listener: (message: RoomMessage) => void): void {
+        this.unsubscribe(key);
+
+        const filtered = (origin: string, message: RoomMessage) => {
+            if (origin !== this.id) {
+                listener(message);
+            }
+        };
+
+        this.listeners.set(key, filtered);
+        this.hub.messages.on(key, filtered);
+    }
+
+    unsubscribe(key: string): void {
+        const listener = this.listeners.get(key);
+
+        if (listener) {
+            this.hub.messages.off(key, listener);
+            this.listeners.delete(key);
+        }
+    }
+}
@@ -0,0 +1,130 @@
+import { createClient, RedisClient } from "redis";
+import { Server } from "socket.io";
+import { createAdapter } from "socket.io-redis";
+import { v4 } from "uuid";
+
+import { RoomCoordinator, RoomMessage } from "./RoomCoordinator";
+
+import { sendCommand } from "../util/redis";
+import logger from "../util/logger";
+
+const ClaimTimeout = 30 * 1000;
+const ClaimRefreshInterval = 10 * 1000;
+
+// Only touch a claim if this process still holds it, so that an expired claim that
+// was taken over by another process is left alone.
+const RefreshClaimScript = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('pexpire', KEYS[1], ARGV[2]) end return 0";
+const ReleaseClaimScript = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0";
+
+/**
+ * Coordinates rooms between server processes over redis, using the same connection as
+ * the socket.io redis adapter that it installs on the server.
+ */
+export default class RedisRoomCoordinator implements RoomCoordinator {
+    id: string;
+
+    private pubClient: RedisClient;
+    private subClient: RedisClient;
+    private listeners = new Map<string, (message: RoomMessage) => void>();
+    private claims = new Map<string, NodeJS.Timeout>();
+
+    constructor(io: Server, uri: string) {
+        this.id = v4();
+        this.pubClient = createClient(uri);
+
+        // The adapter's own subscriber ignores channels that it doesn't know about,
+        // but keep ours separate so that subscribing never interferes with it.
+        io.adapter(createAdapter({ pubClient: this.pubClient, subClient: this.pubClient.duplicate() }));
+        this.subClient = this.pubClient.duplicate();
+
+        this.subClient.on("message", (channel: string, data: string) => {
+            this.handleMessage(channel, data);
+        });
+
+        for (const client of [ this.pubClient, this.subClient ]) {
+            client.on("error", (err: Error) => {
+                logger.error("Error in the room coordinator: " + err.message);
+            });
+        }
+    }
+
+    private getOwnerKey(key: string) {
+        return "auproximity:owner:" + key;
+    }
+
+    private getChannel(key: string) {
+        return "auproximity:room:" + key;
+    }
+
+    private command(name: string, ...args: (string|number)[]): Promise<unknown> {
+        return sendCommand(this.pubClient, name, ...args);
+    }
+
+    async claim(key: string): Promise<boolean> {
+        const ownerKey = this.getOwnerKey(key);
+        const claimed = await this.command("set", ownerKey, this.id, "NX", "PX", ClaimTimeout);
+
+        if (claimed !== "OK" && await this.command("get", ownerKey) !== this.id)
+            return false;
+
+        if (!this.claims.has(key)) {
+            this.claims.set(key, setInterval(async () => {
+                try {
+                    await this.command("eval", RefreshClaimScript, 1, ownerKey, this.id, ClaimTimeout);
+                } catch (e) {
+                    logger.error("Couldn't refresh the claim on room " + key + ". " + (e?.message || e));
+                }
+            }, ClaimRefreshInterval));
+        }
+
+        return true;
+    }
+
+    async release(key: string): Promise<void> {
+        const interval = this.claims.get(key);
+
+        if (!interval)
+            return;
+
+        clearInterval(interval);
+        this.claims.delete(key);
+        await this.command("eval", ReleaseClaimScript, 1, this.getOwnerKey(key), this.id);
+    }
+
+    publish(key: string, message: RoomMessage): void {
+        this.pubClient.publish(this.getChannel(key), JSON.stringify({ origin: this.id, message }));
+    }
+
+    subscribe(key: string, listener: (message: RoomMessage) => void): void {
+        if (!this.listeners.has(key)) {
+            this.subClient.subscribe(this.getChannel(key));
+        }
+
+        this.listeners.set(key, listener);
+    }
+
+    unsubscribe(key: string): void {
+        if (!this.listeners.has(key))
+            return;
+
+        this.subClient.unsubscribe(this.getChannel(key));
+        this.listeners.delete(key);
+    }
+
+    private handleMessage(channel: string, data: string) {
+        const listener = this.listeners.get(channel.slice(this.getChannel("").length));
+
+        if (!listener)
+            return;
+
+        try {
+            const { origin, message } = JSON.parse(data) as { origin: string; message: RoomMessage };
+
+            if (origin !== this.id) {
+                listener(message);
+            }
+        } catch (e) {
+            logger.warn("Received malformed message from the room coordinator: " + (e?.message || e));
+        }
+    }
+}
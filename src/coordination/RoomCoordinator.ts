@@ -0,0 +1,61 @@
+import { BackendEvent } from "../types/enums/BackendEvents";
+
+export enum RoomMessageType {
+    BackendEvent = "backendevent",
+    Join = "join",
+    Leave = "leave",
+    Kick = "kick",
+    Reconnecting = "reconnecting",
+    Radio = "radio",
+    SpectatorRequest = "spectatorrequest",
+    ApproveSpectator = "approvespectator",
+    RelayChunk = "relaychunk",
+    RelayRestart = "relayrestart",
+    Presence = "presence",
+    Sync = "sync"
+}
+
+export type RoomMessage =
+    | { type: RoomMessageType.BackendEvent; event: BackendEvent; payload: unknown }
+    | { type: RoomMessageType.Join; uuid: string; name: string; playerId?: string; spectator?: boolean; hidden?: boolean }
+    | { type: RoomMessageType.Leave; uuid: string; ban: boolean }
+    | { type: RoomMessageType.Kick; uuid: string; ban: boolean }
+    | { type: RoomMessageType.Reconnecting; uuid: string; reconnecting: boolean }
+    | { type: RoomMessageType.Radio; uuid: string; radio: boolean }
+    | { type: RoomMessageType.SpectatorRequest; uuid: string; name: string; pending: boolean }
+    | { type: RoomMessageType.ApproveSpectator; uuid: string; approve: boolean }
+    | { type: RoomMessageType.RelayChunk; uuid: string; data: string; init: boolean }
+    | { type: RoomMessageType.RelayRestart; uuid: string }
+    | { type: RoomMessageType.Presence; uuids: string[] }
+    | { type: RoomMessageType.Sync };
+
+/**
+ * Lets server processes share rooms, the process that claims a room runs its
+ * backend adapter and every process relays its clients to the others.
+ */
+export interface RoomCoordinator {
+    /**
+     * Tries to become the owner of a room, resolves to true if this process
+     * should run the room's backend adapter. A claim lasts for as long as the
+     * process that made it keeps running, so that another can take over.
+     */
+    claim(key: string): Promise<boolean>;
+
+    /**
+     * Gives up ownership of a room, if this process owns it.
+     */
+    release(key: string): Promise<void>;
+
+    /**
+     * Sends a message to the room with this key on every other process.
+     */
+    publish(key: string, message: RoomMessage): void;
+
+    /**
+     * Listens for messages published for a room by other processes, there is
+     * only ever one listener for a room in each process.
+     */
+    subscribe(key: string, listener: (message: RoomMessage) => void): void;
+
+    unsubscribe(key: string): void;
+}
@@ -13,7 +13,15 @@ import * as Sentry from "@sentry/node";
 import { AUProximityState } from "./types/models/AUProximityState";
 
 import Client from "./Client";
+import FileBanStore from "./bans/FileBanStore";
+import RedisBanStore from "./bans/RedisBanStore";
+import InMemoryRoomCoordinator from "./coordination/InMemoryRoomCoordinator";
+import RedisRoomCoordinator from "./coordination/RedisRoomCoordinator";
+import BepInExBackend from "./backends/BepInExBackend";
+import AdminApi, { authenticate } from "./api/AdminApi";
+import MapApi from "./api/MapApi";
 import logger from "./util/logger";
+import { register } from "./util/metrics";
 
 const app = express();
 
@@ -48,16 +56,54 @@ app.use("/peerjs", ExpressPeerServer({
 
 export const state: AUProximityState = {
     allClients: [],
-    allRooms: [],
-    isClosing: false
+    allRooms: new Map,
+    isClosing: false,
+    bans: typeof process.env.REDIS_URL !== "undefined"
+        ? new RedisBanStore(process.env.REDIS_URL)
+        : new FileBanStore(process.env.BANS_FILE || path.resolve(process.cwd(), "bans.json")),
+    coordinator: typeof process.env.REDIS_URL !== "undefined"
+        ? new RedisRoomCoordinator(io, process.env.REDIS_URL)
+        : new InMemoryRoomCoordinator
 };
 
-io.on("connection", (socket: Socket) => {
+if (typeof process.env.REDIS_URL !== "undefined") {
+    logger.info("Sharing rooms with other processes over redis.");
+} else {
+    logger.info("Skipping room sharing between processes (not configured).");
+}
+
+io.on("connection", async (socket: Socket) => {
+    const resumeToken = socket.handshake.auth?.resumeToken;
+    const resumed = typeof resumeToken === "string"
+        ? state.allClients.find(client => client.reconnecting && client.resumeToken === resumeToken)
+        : undefined;
+
+    if (resumed) {
+        await resumed.resume(socket);
+        logger.log("User reconnected, uuid:", resumed.uuid);
+        return;
+    }
+
     const client = new Client(socket, v4());
     state.allClients.push(client);
     logger.log("User connected, uuid:", client.uuid);
 });
 
+io.of("/bepinex")
+    .use(BepInExBackend.authenticate)
+    .on("connection", BepInExBackend.handleConnection);
+
+if (typeof process.env.ADMIN_TOKEN !== "undefined") {
+    logger.info("Enabling the admin API and metrics.");
+    app.use("/api/admin", AdminApi);
+    app.get("/metrics", authenticate, async (req, res) => {
+        res.set("Content-Type", register.contentType);
+        res.end(await register.metrics());
+    });
+} else {
+    logger.info("Skipping the admin API and metrics (not configured).");
+}
+app.use("/api/maps", MapApi);
 
 app.all("*", (req, res) => {
     res.sendFile(path.join(__dirname, "dist", "index.html"));
@@ -79,9 +125,9 @@ async function gracefulShutdown() {
     state.isClosing = true;
 
     logger.info("Shutting down gracefully..");
-    logger.info("Waiting for all rooms (" + state.allRooms.length + ") currently playing to finish. Press Ctrl + C to exit immediately.");
+    logger.info("Waiting for all rooms (" + state.allRooms.size + ") currently playing to finish. Press Ctrl + C to exit immediately.");
     await Promise.allSettled(
-        state.allRooms.map(room => room.gracefulDestroy()),
+        [...state.allRooms.values()].map(room => room.gracefulDestroy()),
     );
     logger.success("All running games were closed, goodbye.");
     process.exit();
@@ -4,4 +4,10 @@ export interface ClientBase {
     uuid: string;
     name: string;
     room?: Room;
+    reconnecting?: boolean;
+    verified?: boolean;
+    playerId?: string;
+    radio?: boolean;
+    spectator?: boolean;
+    hidden?: boolean;
 }
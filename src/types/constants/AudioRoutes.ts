@@ -0,0 +1,28 @@
+import { AudioRole, AudioRoute } from "../enums/AudioRoutes";
+import { GameState } from "../enums/GameState";
+import { AudioRoutes } from "../models/ClientOptions";
+
+const { Alive, Dead, Impostor } = AudioRole;
+const { Proximity, Global, Muted } = AudioRoute;
+
+/**
+ * How everyone can hear each other unless the host changes it,
+ * the living can't hear the dead and everyone can hear each other in meetings.
+ */
+export const DefaultAudioRoutes: AudioRoutes = {
+    [GameState.Lobby]: {
+        [Alive]: { [Alive]: Proximity, [Dead]: Proximity, [Impostor]: Proximity },
+        [Dead]: { [Alive]: Proximity, [Dead]: Proximity, [Impostor]: Proximity },
+        [Impostor]: { [Alive]: Proximity, [Dead]: Proximity, [Impostor]: Proximity }
+    },
+    [GameState.Game]: {
+        [Alive]: { [Alive]: Proximity, [Dead]: Muted, [Impostor]: Proximity },
+        [Dead]: { [Alive]: Proximity, [Dead]: Proximity, [Impostor]: Proximity },
+        [Impostor]: { [Alive]: Proximity, [Dead]: Muted, [Impostor]: Proximity }
+    },
+    [GameState.Meeting]: {
+        [Alive]: { [Alive]: Global, [Dead]: Muted, [Impostor]: Global },
+        [Dead]: { [Alive]: Global, [Dead]: Global, [Impostor]: Global },
+        [Impostor]: { [Alive]: Global, [Dead]: Muted, [Impostor]: Global }
+    }
+};
@@ -0,0 +1,79 @@
+import { MapID } from "@skeldjs/constant";
+
+const TheSkeldCameras = [
+    { x: -17.8, y: -4.8 },
+    { x: 13.3, y: -4.2 },
+    { x: -7.2, y: 1.8 },
+    { x: 0.6, y: -6.5 }
+];
+
+export const CameraPositions: Record<MapID, { x: number; y: number }[]> = {
+    [MapID.TheSkeld]: TheSkeldCameras,
+    // Mira HQ has a door log instead of cameras, players using it hear the area around the nearest sensor.
+    [MapID.MiraHQ]: [
+        // Launchpad hallway
+        { x: 6.1, y: 1.4 },
+        // Reactor hallway
+        { x: 9.5, y: 12.5 },
+        // Greenhouse hallway
+        { x: 17.8, y: 11.5 }
+    ],
+    [MapID.Polus]: [
+        { x: 4.8, y: -22.6 },
+        { x: 24.4, y: -8.6 },
+        { x: 29.1, y: -15.5 },
+        { x: 11.6, y: -8.3 },
+        { x: 15.5, y: -15.6 }
+    ],
+    [MapID.AprilFoolsTheSkeld]: TheSkeldCameras.map(camera => ({ x: -camera.x, y: camera.y })),
+    // In the order that the cameras are cycled through in game, which is the camera id that backends report.
+    [MapID.Airship]: [
+        // Engine Room
+        { x: -0.1, y: -1.4 },
+        // Vault
+        { x: -8.8, y: 8.5 },
+        // Records
+        { x: 19.9, y: 9.8 },
+        // Security
+        { x: 7.3, y: -12.7 },
+        // Cargo Bay
+        { x: 33.4, y: -1.5 },
+        // Meeting Room
+        { x: 11.1, y: 15.2 }
+    ]
+};
+
+export function getClosestCamera(position: { x: number; y: number }, map: MapID): { x: number; y: number }|null {
+    const cameras = CameraPositions[map] || [];
+
+    if (cameras.length) {
+        let closest = cameras[0];
+        let closestDist = Math.hypot(position.x - closest.x, position.y - closest.y);
+        for (let i = 1; i < cameras.length; i++) {
+            const pos = cameras[i];
+            const dist = Math.hypot(position.x - pos.x, position.y - pos.y);
+
+            if (dist < closestDist) {
+                closest = pos;
+                closestDist = dist;
+            }
+        }
+
+        return closest;
+    }
+    return null;
+}
+
+/**
+ * Gets the camera that a player is watching, falling back to the camera closest
+ * to the position being listened to if the backend doesn't know which camera it is.
+ */
+export function getCamera(position: { x: number; y: number }, map: MapID, camera: number): { x: number; y: number }|null {
+    const cameras = CameraPositions[map] || [];
+
+    if (camera > -1 && cameras[camera]) {
+        return cameras[camera];
+    }
+
+    return getClosestCamera(position, map);
+}
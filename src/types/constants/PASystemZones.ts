@@ -0,0 +1,34 @@
+import { MapID } from "@skeldjs/constant";
+
+export interface PASystemZone {
+    x: number;
+    y: number;
+    radius: number;
+}
+
+/**
+ * Areas around each map's intercom or emergency button console, a player
+ * standing inside of one of these can be heard by everyone in the game.
+ */
+export const PASystemZones: Record<MapID, PASystemZone[]> = {
+    [MapID.TheSkeld]: [],
+    [MapID.MiraHQ]: [
+        // Communications
+        { x: 15.3, y: 3.8, radius: 1.5 }
+    ],
+    [MapID.Polus]: [
+        // Office
+        { x: 19.5, y: -17.0, radius: 1.5 }
+    ],
+    [MapID.AprilFoolsTheSkeld]: [],
+    [MapID.Airship]: [
+        // Meeting room
+        { x: 11.0, y: 14.9, radius: 1.5 }
+    ]
+};
+
+export function isInPASystemZone(map: MapID, position: { x: number; y: number }): boolean {
+    const zones = PASystemZones[map] || [];
+
+    return zones.some(zone => Math.hypot(position.x - zone.x, position.y - zone.y) <= zone.radius);
+}
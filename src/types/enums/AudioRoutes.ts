@@ -0,0 +1,11 @@
+export enum AudioRoute {
+    Proximity = "proximity",
+    Global = "global",
+    Muted = "muted"
+}
+
+export enum AudioRole {
+    Alive = "alive",
+    Dead = "dead",
+    Impostor = "impostor"
+}
@@ -2,7 +2,13 @@ export enum BackendEvent {
     PlayerPose = "playerposition",
     PlayerVent = "playervent",
     PlayerColor = "playercolor",
+    PlayerName = "playername",
+    PlayerLeave = "playerleave",
+    Chat = "chat",
+    HostCommand = "hostcommand",
+    JoinedLobby = "joinedlobby",
     PlayerFlags = "playerflags",
+    PlayerCamera = "playercamera",
     HostChange = "hostchange",
     GameState = "gamestate",
     GameFlags = "gameflags",
@@ -6,13 +6,36 @@ export enum ClientSocketEvents {
     SyncAllClients = "syncallclients",
     AddClient = "addclient",
     RemoveClient = "removeclient",
-    SetPositionOf = "setpositionof",
     SetVentOf = "setventof",
     SetColorOf = "setcolorof",
     SetHost = "sethost",
     SetOptions = "setoptions",
+    SetClientOptions = "setclientoptions",
     SetSettings = "setsettings",
     SetGameState = "setgamestate",
     SetGameFlags = "setgameflags",
-    SetFlagsOf = "setflagsof"
+    SetFlagsOf = "setflagsof",
+    SetCameraOf = "setcameraof",
+    SetAudibilityOf = "setaudibilityof",
+    ListBans = "listbans",
+    SetBans = "setbans",
+    Unban = "unban",
+    SetResumeToken = "setresumetoken",
+    SetReconnectingOf = "setreconnectingof",
+    SetVerification = "setverification",
+    SetNameOf = "setnameof",
+    SetPlayerChoices = "setplayerchoices",
+    ChoosePlayer = "chooseplayer",
+    Chat = "chat",
+    SetRadio = "setradio",
+    SetRadioOf = "setradioof",
+    SetPositionOf = "setpositionof",
+    SetSpectatorRequests = "setspectatorrequests",
+    ApproveSpectator = "approvespectator",
+    SetPerspective = "setperspective",
+    JoinMix = "joinmix",
+    SetMixToken = "setmixtoken",
+    RelayChunk = "relaychunk",
+    RelayChunkOf = "relaychunkof",
+    RelayRestart = "relayrestart"
 }
\ No newline at end of file
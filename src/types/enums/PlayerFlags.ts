@@ -2,5 +2,6 @@ export enum PlayerFlag {
     None = 0,
     IsImpostor = 1,
     IsDead = 2,
-    OnCams = 4
+    OnCams = 4,
+    OnPASystem = 8
 }
\ No newline at end of file
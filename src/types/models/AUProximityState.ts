@@ -1,8 +1,12 @@
 import Client from "../../Client";
 import Room from "../../Room";
+import { BanStore } from "../../bans/BanStore";
+import { RoomCoordinator } from "../../coordination/RoomCoordinator";
 
 export interface AUProximityState {
     allClients: Client[];
-    allRooms: Room[];
+    allRooms: Map<string, Room>;
     isClosing: boolean;
+    bans: BanStore;
+    coordinator: RoomCoordinator;
 }
\ No newline at end of file
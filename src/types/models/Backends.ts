@@ -5,7 +5,8 @@ export enum BackendType {
     PublicLobby,
     Impostor,
     BepInEx,
-    NodePolus
+    NodePolus,
+    Replay
 }
 
 export interface BackendModel {
@@ -31,4 +32,9 @@ export interface NodePolusBackendModel extends BackendModel {
 export interface BepInExBackendModel extends BackendModel {
     backendType: BackendType.BepInEx;
     token: string;
-}
\ No newline at end of file
+}
+
+export interface ReplayBackendModel extends BackendModel {
+    backendType: BackendType.Replay;
+    recording: string;
+}
@@ -1,5 +1,13 @@
 import { MapID } from "@skeldjs/constant";
 
+import { AudioRole, AudioRoute } from "../enums/AudioRoutes";
+import { GameState } from "../enums/GameState";
+
+/**
+ * How a listener hears a speaker in each game state, by the listener's role and then the speaker's.
+ */
+export type AudioRoutes = Record<GameState, Record<AudioRole, Record<AudioRole, AudioRoute>>>;
+
 export interface HostOptions {
     falloff: number;
     falloffVision: boolean;
@@ -7,6 +15,15 @@ export interface HostOptions {
     paSystems: boolean;
     commsSabotage: boolean;
     meetingsCommsSabotage: boolean;
+    impostorRadio: boolean;
+    relay: boolean;
+    verifyNames: boolean;
+    spectatorRoles: boolean;
+    routes: AudioRoutes;
+}
+
+export interface ClientOptions {
+    omniscientGhosts: boolean;
 }
 
 export interface GameSettings {
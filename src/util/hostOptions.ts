@@ -0,0 +1,53 @@
+import { AudioRole, AudioRoute } from "../types/enums/AudioRoutes";
+import { GameState } from "../types/enums/GameState";
+import { HostOptions } from "../types/models/ClientOptions";
+import { isObject } from "./validation";
+
+// The range of voice dropoffs that the host can pick from, in the web UI and in the chat.
+export const MinFalloff = 2.5;
+export const MaxFalloff = 10;
+
+const GameStates = [ GameState.Lobby, GameState.Game, GameState.Meeting ];
+const Roles = Object.values(AudioRole);
+const Routes: unknown[] = Object.values(AudioRoute);
+
+const BooleanOptions: (keyof HostOptions)[] = [
+    "falloffVision",
+    "colliders",
+    "paSystems",
+    "commsSabotage",
+    "meetingsCommsSabotage",
+    "impostorRadio",
+    "relay",
+    "verifyNames",
+    "spectatorRoles"
+];
+
+function isValidRoutes(routes: unknown): boolean {
+    return isObject(routes) && GameStates.every(state => {
+        const listeners = routes[state];
+
+        return isObject(listeners) && Roles.every(listener => {
+            const speakers = listeners[listener];
+
+            return isObject(speakers) && Roles.every(speaker => Routes.includes(speakers[speaker])) &&
+                // Everyone but the impostors has to hear them like any other living player,
+                // or who can be heard from where would give away who the impostors are.
+                (listener === AudioRole.Impostor || speakers[AudioRole.Impostor] === speakers[AudioRole.Alive]);
+        });
+    });
+}
+
+/**
+ * Checks that host options sent by a client are complete, so that a broken
+ * routing table can't leave everyone unable to hear each other.
+ */
+export function isValidHostOptions(options: unknown): options is HostOptions {
+    return isObject(options) &&
+        typeof options.falloff === "number" &&
+        isFinite(options.falloff) &&
+        options.falloff >= MinFalloff &&
+        options.falloff <= MaxFalloff &&
+        BooleanOptions.every(key => typeof options[key] === "boolean") &&
+        isValidRoutes(options.routes);
+}
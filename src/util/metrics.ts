@@ -0,0 +1,66 @@
+import client from "prom-client";
+
+import { BackendType } from "../types/models/Backends";
+
+import { state } from "../main";
+
+export const register = new client.Registry;
+
+client.collectDefaultMetrics({ register });
+
+export const rooms = new client.Gauge({
+    name: "auproximity_rooms",
+    help: "Number of open rooms, by the backend that they use.",
+    labelNames: [ "backend_type" ],
+    registers: [ register ],
+    collect() {
+        this.reset();
+
+        for (const type of Object.values(BackendType)) {
+            if (typeof type === "number") {
+                this.set({ backend_type: BackendType[type] }, 0);
+            }
+        }
+
+        for (const room of state.allRooms.values()) {
+            this.inc({ backend_type: BackendType[room.backendModel.backendType] });
+        }
+    }
+});
+
+export const clients = new client.Gauge({
+    name: "auproximity_clients",
+    help: "Number of connected clients.",
+    registers: [ register ],
+    collect() {
+        this.set(state.allClients.length);
+    }
+});
+
+export const backendErrors = new client.Counter({
+    name: "auproximity_backend_errors_total",
+    help: "Number of errors emitted by backends, by the backend and whether the error was fatal.",
+    labelNames: [ "backend_type", "fatal" ],
+    registers: [ register ]
+});
+
+export const publicLobbyJoinAttempts = new client.Counter({
+    name: "auproximity_public_lobby_join_attempts_total",
+    help: "Number of attempts the public lobby backend made to join a game.",
+    registers: [ register ]
+});
+
+export const publicLobbyJoinFailures = new client.Counter({
+    name: "auproximity_public_lobby_join_failures_total",
+    help: "Number of failed attempts the public lobby backend made to join a game, by the reason it failed.",
+    labelNames: [ "code" ],
+    registers: [ register ]
+});
+
+export const authTokenDuration = new client.Histogram({
+    name: "auproximity_auth_token_duration_seconds",
+    help: "Time taken to fetch an authorisation token for the public lobby backend.",
+    labelNames: [ "result" ],
+    buckets: [ 0.1, 0.25, 0.5, 1, 1.5, 2 ],
+    registers: [ register ]
+});
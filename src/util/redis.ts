@@ -0,0 +1,16 @@
+import { RedisClient } from "redis";
+
+/**
+ * Sends a command to redis, resolving to its reply.
+ */
+export function sendCommand(client: RedisClient, name: string, ...args: (string|number)[]): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        client.send_command(name, args, (err: Error|null, reply: unknown) => {
+            if (err) {
+                reject(err);
+            } else {
+                resolve(reply);
+            }
+        });
+    });
+}
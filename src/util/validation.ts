@@ -0,0 +1,18 @@
+// Checks for the shapes of values that come from outside of the server, such as
+// the host's options and events from mods and private server plugins.
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null;
+}
+
+export function isName(value: unknown): value is string {
+    return typeof value === "string" && value.length > 0;
+}
+
+export function isInteger(value: unknown): value is number {
+    return typeof value === "number" && Number.isInteger(value);
+}
+
+export function isNumber(value: unknown): value is number {
+    return typeof value === "number" && isFinite(value);
+}
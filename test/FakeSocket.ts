@@ -0,0 +1,41 @@
+import { Socket } from "socket.io";
+
+/**
+ * Stands in for a client's socket.io socket. Events that the server sends are kept in
+ * `sent`, and `receive` runs the handler that the server attached for an event.
+ */
+export default class FakeSocket {
+    handshake = { address: "127.0.0.1", headers: {} as Record<string, string>, auth: {} as Record<string, unknown> };
+    sent: [ string, unknown ][] = [];
+
+    private handlers = new Map<string, (payload: unknown) => unknown>();
+
+    on(event: string, handler: (payload: unknown) => unknown): this {
+        this.handlers.set(event, handler);
+        return this;
+    }
+
+    emit(event: string, payload: unknown): boolean {
+        this.sent.push([ event, payload ]);
+        return true;
+    }
+
+    async receive(event: string, payload: unknown): Promise<void> {
+        await this.handlers.get(event)?.(payload);
+    }
+
+    /**
+     * Gets the payloads of every event of a kind that the server sent, oldest first.
+     */
+    sentOf<T>(event: string): T[] {
+        return this.sent.filter(([ name ]) => name === event).map(([ , payload ]) => payload as T);
+    }
+
+    disconnect(): void {
+        this.handlers.clear();
+    }
+
+    asSocket(): Socket {
+        return this as unknown as Socket;
+    }
+}
@@ -0,0 +1,47 @@
+import assert from "assert";
+
+import GameRecorder from "../src/GameRecorder";
+import { BackendEvent } from "../src/types/enums/BackendEvents";
+import { BackendType } from "../src/types/models/Backends";
+
+describe("GameRecorder", () => {
+    it("reads back the header and events that it recorded", async () => {
+        const recorder = new GameRecorder("ABCDEF", BackendType.NoOp);
+
+        recorder.record(BackendEvent.PlayerColor, { id: "id:1", name: "Red", color: 0 });
+        recorder.record(BackendEvent.Chat, { id: "id:1", name: "Red", message: "hi" });
+        await recorder.stop();
+
+        const { header, events } = await GameRecorder.read(recorder.name);
+
+        assert.strictEqual(header.gameCode, "ABCDEF");
+        assert.strictEqual(header.backendType, BackendType.NoOp);
+        assert.strictEqual(header.startedAt, recorder.startedAt);
+        assert.deepStrictEqual(events.map(([ , event, payload ]) => [ event, payload ]), [
+            [ BackendEvent.PlayerColor, { id: "id:1", name: "Red", color: 0 } ],
+            [ BackendEvent.Chat, { id: "id:1", name: "Red", message: "hi" } ]
+        ]);
+        assert.ok((await GameRecorder.list()).includes(recorder.name));
+    });
+
+    it("names recordings after the game code", async () => {
+        const recorder = new GameRecorder("ab/../cd", BackendType.NoOp);
+        await recorder.stop();
+
+        assert.match(recorder.name, /^AB\w*CD-[\w-]+$/);
+    });
+
+    it("ends the names of recordings with an id that can't be guessed", async () => {
+        const first = new GameRecorder("ABCDEF", BackendType.NoOp);
+        const second = new GameRecorder("ABCDEF", BackendType.NoOp);
+        await Promise.all([ first.stop(), second.stop() ]);
+
+        assert.match(first.name, /-[0-9a-f]{24}$/);
+        assert.notStrictEqual(first.name.slice(-24), second.name.slice(-24));
+    });
+
+    it("refuses names that could point outside of the recordings directory", async () => {
+        assert.strictEqual(GameRecorder.getPath("../ABCDEF"), undefined);
+        await assert.rejects(GameRecorder.read("../ABCDEF"), /There is no recording called/);
+    });
+});
@@ -0,0 +1,88 @@
+import { state } from "./stubMain";
+import FakeSocket from "./FakeSocket";
+
+import assert from "assert";
+
+import Room from "../src/Room";
+import Client from "../src/Client";
+import { runHostCommand } from "../src/HostCommands";
+import { MaxFalloff } from "../src/util/hostOptions";
+import { BackendType } from "../src/types/models/Backends";
+import { BackendEvent } from "../src/types/enums/BackendEvents";
+
+describe("runHostCommand", () => {
+    const backendModel = { backendType: BackendType.NoOp, gameCode: "ABCDEF" };
+    let room: Room;
+
+    beforeEach(() => {
+        room = new Room(backendModel);
+        state.allRooms.set(room.key, room);
+    });
+
+    afterEach(async () => {
+        await room.destroy();
+    });
+
+    // Joins a client as a player of the game, as only clients playing as someone can be kicked by name.
+    async function join(name: string, id: string): Promise<Client> {
+        const client = new Client(new FakeSocket().asSocket(), "client-" + id);
+        await client.joinRoom(name, backendModel);
+        room.backendAdapter.emit(BackendEvent.PlayerName, { id, name });
+        return client;
+    }
+
+    it("lists the commands", async () => {
+        const result = await runHostCommand(room, "help", []);
+
+        assert.strictEqual(result.error, false);
+        assert.match(result.message, /falloff/);
+    });
+
+    it("sets the voice dropoff within the range that the web UI allows", async () => {
+        assert.deepStrictEqual(await runHostCommand(room, "falloff", [ "3" ]), { message: "Set the voice dropoff to 3.", error: false });
+        assert.strictEqual(room.options.falloff, 3);
+
+        assert.strictEqual((await runHostCommand(room, "falloff", [ String(MaxFalloff + 1) ])).error, true);
+        assert.strictEqual((await runHostCommand(room, "falloff", [ "loud" ])).error, true);
+        assert.strictEqual(room.options.falloff, 3);
+    });
+
+    it("switches options on and off", async () => {
+        assert.strictEqual((await runHostCommand(room, "colliders", [ "on" ])).error, false);
+        assert.strictEqual(room.options.colliders, true);
+
+        assert.strictEqual((await runHostCommand(room, "colliders", [ "no" ])).error, false);
+        assert.strictEqual(room.options.colliders, false);
+
+        assert.strictEqual((await runHostCommand(room, "colliders", [ "maybe" ])).error, true);
+    });
+
+    it("keeps the relay on while the impostor radio is on", async () => {
+        await runHostCommand(room, "radio", [ "on" ]);
+        const result = await runHostCommand(room, "relay", [ "off" ]);
+
+        assert.strictEqual(result.error, true);
+        assert.strictEqual(room.options.relay, true);
+    });
+
+    it("kicks a client by name", async () => {
+        const host = await join("Host", "id:1");
+        await join("Red", "id:2");
+
+        assert.deepStrictEqual(await runHostCommand(room, "kick", [ "red" ]), { message: "Kicked Red.", error: false });
+        assert.deepStrictEqual(room.clients, [ host ]);
+    });
+
+    it("refuses to kick a name that nobody or more than one client has", async () => {
+        await join("Red", "id:1");
+        await join("Red", "id:2");
+
+        assert.strictEqual((await runHostCommand(room, "kick", [ "Blue" ])).error, true);
+        assert.strictEqual((await runHostCommand(room, "kick", [ "Red" ])).error, true);
+        assert.strictEqual(room.clients.length, 2);
+    });
+
+    it("refuses unknown commands", async () => {
+        assert.strictEqual((await runHostCommand(room, "dance", [])).error, true);
+    });
+});
@@ -0,0 +1,81 @@
+import "./stubMain";
+import FakeSocket from "./FakeSocket";
+
+import assert from "assert";
+
+import Room from "../src/Room";
+import Client from "../src/Client";
+import { AudioRoute } from "../src/types/enums/AudioRoutes";
+import { BackendType } from "../src/types/models/Backends";
+import { ClientSocketEvents } from "../src/types/enums/ClientSocketEvents";
+
+type RelayChunk = { uuid: string; data: Buffer; init: boolean };
+
+const Header = Buffer.from("webm header");
+const ClusterId = Buffer.from([ 0x1f, 0x43, 0xb6, 0x75 ]);
+
+describe("MediaRelay", () => {
+    const backendModel = { backendType: BackendType.NoOp, gameCode: "ABCDEF" };
+    let room: Room;
+
+    async function join(name: string, spectator = false): Promise<[ Client, FakeSocket ]> {
+        const socket = new FakeSocket();
+        const client = new Client(socket.asSocket(), "client-" + name);
+
+        await client.joinRoom(name, backendModel, spectator, spectator);
+        room = client.room as Room;
+        return [ client, socket ];
+    }
+
+    async function speak(socket: FakeSocket, data: Buffer, init = false) {
+        await socket.receive(ClientSocketEvents.RelayChunk, { data, init });
+    }
+
+    afterEach(async () => {
+        await room.destroy();
+    });
+
+    it("sends a listener that starts hearing a speaker the header and the current cluster instead of restarting", async () => {
+        const [ , speakerSocket ] = await join("Speaker");
+        const [ , listenerSocket ] = await join("Listener");
+        room.setOptions({ ...room.options, relay: true });
+
+        await speak(speakerSocket, Buffer.concat([ Header, ClusterId, Buffer.from("first") ]), true);
+        await speak(speakerSocket, Buffer.concat([ Buffer.from("second"), ClusterId.subarray(0, 2) ]));
+
+        const [ , latecomerSocket ] = await join("Latecomer");
+        await speak(speakerSocket, Buffer.concat([ ClusterId.subarray(2), Buffer.from("third") ]));
+
+        assert.deepStrictEqual(speakerSocket.sentOf(ClientSocketEvents.RelayRestart), []);
+        assert.strictEqual(listenerSocket.sentOf<RelayChunk>(ClientSocketEvents.RelayChunkOf).length, 3);
+        assert.deepStrictEqual(latecomerSocket.sentOf<RelayChunk>(ClientSocketEvents.RelayChunkOf).map(({ data, init }) => [ data.toString(), init ]), [
+            [ Buffer.concat([ Header, ClusterId, Buffer.from("third") ]).toString(), true ]
+        ]);
+    });
+
+    it("asks the speaker for a new recording if it missed the start of the current one", async () => {
+        const [ speaker, speakerSocket ] = await join("Speaker");
+        await join("Listener");
+        room.setOptions({ ...room.options, relay: true });
+
+        room.relay.relay(speaker, Buffer.from("middle of a recording"), false);
+
+        assert.strictEqual(speakerSocket.sentOf(ClientSocketEvents.RelayRestart).length, 1);
+    });
+
+    it("sends spectators everyone's voice, even from players that the one they follow can't hear", async () => {
+        const [ , speakerSocket ] = await join("Speaker");
+        const [ listener, listenerSocket ] = await join("Listener");
+        const [ mix, mixSocket ] = await join("Stream mix", true);
+
+        // Nobody can hear anyone.
+        const muted = JSON.parse(JSON.stringify(room.options.routes).replace(/"(proximity|global)"/g, JSON.stringify(AudioRoute.Muted)));
+        room.setOptions({ ...room.options, relay: true, routes: muted });
+        room.setPerspective(mix, listener.uuid);
+
+        await speak(speakerSocket, Buffer.concat([ Header, ClusterId ]), true);
+
+        assert.deepStrictEqual(listenerSocket.sentOf(ClientSocketEvents.RelayChunkOf), []);
+        assert.strictEqual(mixSocket.sentOf(ClientSocketEvents.RelayChunkOf).length, 1);
+    });
+});
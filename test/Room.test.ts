@@ -0,0 +1,532 @@
+import { state } from "./stubMain";
+import FakeSocket from "./FakeSocket";
+
+import assert from "assert";
+import { MapID } from "@skeldjs/constant";
+
+import Room from "../src/Room";
+import Client, { ChatMessage, PlayerModel } from "../src/Client";
+import GameRecorder from "../src/GameRecorder";
+import { BanStore } from "../src/bans/BanStore";
+import { BackendModel, BackendType } from "../src/types/models/Backends";
+import { ClientSocketEvents } from "../src/types/enums/ClientSocketEvents";
+import { PlayerFlag } from "../src/types/enums/PlayerFlags";
+import { GameState } from "../src/types/enums/GameState";
+import { GameFlag } from "../src/types/enums/GameFlags";
+import { BackendEvent } from "../src/types/enums/BackendEvents";
+
+describe("Room", () => {
+    const backendModel = { backendType: BackendType.NoOp, gameCode: "ABCDEF" };
+    let room: Room;
+
+    beforeEach(() => {
+        // Registered like a room that a client created, so that clients joining the game join this one.
+        room = new Room(backendModel);
+        state.allRooms.set(room.key, room);
+    });
+
+    afterEach(async () => {
+        await room.destroy();
+    });
+
+    function addPlayer(id: string, x: number, y: number, flags = PlayerFlag.None): PlayerModel {
+        const player: PlayerModel = {
+            id,
+            name: "Player " + id,
+            position: { x, y },
+            color: -1,
+            flags,
+            ventid: -1,
+            camera: -1
+        };
+
+        room.players.set(id, player);
+        return player;
+    }
+
+    function makeClient(playerId: string, extra: Partial<Client> = {}): Client {
+        return {
+            uuid: "client-" + playerId,
+            name: "Player " + playerId,
+            playerId,
+            verified: true,
+            options: { omniscientGhosts: false },
+            ...extra
+        } as Client;
+    }
+
+    async function join(name: string, model: BackendModel = backendModel): Promise<[ Client, FakeSocket ]> {
+        const socket = new FakeSocket();
+        const client = new Client(socket.asSocket(), "client-" + name);
+
+        await client.joinRoom(name, model);
+        return [ client, socket ];
+    }
+
+    describe("when a player leaves", () => {
+        it("forgets the player and unbinds its clients, so that the next player with its id starts over", () => {
+            const remote = { uuid: "remote", name: "Red", verified: true, playerId: "id:1" };
+
+            room.remoteClients.push(remote);
+            room.backendAdapter.emit(BackendEvent.PlayerColor, { id: "id:1", name: "Red", color: 0 });
+            room.backendAdapter.emit(BackendEvent.PlayerLeave, { id: "id:1", name: "Red" });
+
+            assert.strictEqual(room.players.has("id:1"), false);
+            assert.strictEqual(remote.playerId, undefined);
+
+            room.backendAdapter.emit(BackendEvent.PlayerColor, { id: "id:1", name: "Blue", color: 1 });
+
+            assert.strictEqual(room.getMemberByPlayer("id:1"), undefined);
+            assert.strictEqual(room.getPlayerOf(remote).name, "Red");
+        });
+    });
+
+    describe("setOptions", () => {
+        it("keeps the relay on while the impostor radio is on", () => {
+            room.setOptions({ ...room.options, impostorRadio: true, relay: false });
+
+            assert.strictEqual(room.options.relay, true);
+
+            room.setOptions({ ...room.options, impostorRadio: false, relay: false });
+
+            assert.strictEqual(room.options.relay, false);
+        });
+    });
+
+    describe("recording", () => {
+        it("leaves the chat out of the recording of a game", async () => {
+            room.backendAdapter.emitGameState(GameState.Game);
+            const recorder = room.recorder as GameRecorder;
+
+            room.backendAdapter.emit(BackendEvent.Chat, { id: "id:1", name: "Red", message: "it was blue" });
+            room.backendAdapter.emit(BackendEvent.PlayerColor, { id: "id:1", name: "Red", color: 0 });
+            room.backendAdapter.emitGameState(GameState.Lobby);
+            await recorder.stop();
+
+            const { events } = await GameRecorder.read(recorder.name);
+
+            assert.ok(events.some(([ , event ]) => event === BackendEvent.PlayerColor));
+            assert.ok(!events.some(([ , event ]) => event === BackendEvent.Chat));
+        });
+    });
+
+    describe("getAudibility", () => {
+        it("fades voices out with distance and pans them towards the speaker", () => {
+            addPlayer("1", 0, 0);
+            addPlayer("2", 2.25, 0);
+
+            assert.deepStrictEqual(room.getAudibility(makeClient("1"), makeClient("2")), {
+                gain: 0.5,
+                pan: { x: 2.3, y: 0, z: 1 }
+            });
+        });
+
+        it("silences speakers beyond the falloff", () => {
+            addPlayer("1", 0, 0);
+            addPlayer("2", 5, 0);
+
+            assert.strictEqual(room.getAudibility(makeClient("1"), makeClient("2")).gain, 0);
+        });
+
+        it("silences speakers behind a wall only when colliders are on", () => {
+            room.options.falloff = 20;
+            room.settings.map = MapID.TheSkeld;
+            addPlayer("1", 0, 5);
+            addPlayer("2", 9, 1);
+
+            assert.ok(room.getAudibility(makeClient("1"), makeClient("2")).gain > 0);
+
+            room.options.colliders = true;
+
+            assert.strictEqual(room.getAudibility(makeClient("1"), makeClient("2")).gain, 0);
+        });
+
+        it("silences clients that haven't proven their name", () => {
+            addPlayer("1", 0, 0);
+            addPlayer("2", 1, 0);
+
+            assert.strictEqual(room.getAudibility(makeClient("1"), makeClient("2", { verified: false })).gain, 0);
+            assert.strictEqual(room.getAudibility(makeClient("1", { verified: false }), makeClient("2")).gain, 0);
+        });
+
+        it("lets spectators hear everyone but nobody hear them", () => {
+            addPlayer("1", 0, 0);
+            addPlayer("2", 30, 0);
+
+            const spectator = makeClient("", { spectator: true, playerId: undefined });
+
+            assert.strictEqual(room.getAudibility(spectator, makeClient("2")).gain, 1);
+            assert.strictEqual(room.getAudibility(makeClient("1"), spectator).gain, 0);
+        });
+
+        it("keeps the living from hearing the dead during the game", () => {
+            room.state = GameState.Game;
+            addPlayer("1", 0, 0);
+            addPlayer("2", 1, 0, PlayerFlag.IsDead);
+
+            assert.strictEqual(room.getAudibility(makeClient("1"), makeClient("2")).gain, 0);
+            assert.ok(room.getAudibility(makeClient("2"), makeClient("1")).gain > 0);
+        });
+
+        it("lets omniscient ghosts hear everyone", () => {
+            room.state = GameState.Game;
+            addPlayer("1", 0, 0, PlayerFlag.IsDead);
+            addPlayer("2", 30, 0);
+
+            const ghost = makeClient("1", { options: { omniscientGhosts: true } });
+
+            assert.strictEqual(room.getAudibility(ghost, makeClient("2")).gain, 1);
+        });
+
+        it("silences the living while communications are sabotaged", () => {
+            room.state = GameState.Game;
+            room.flags = GameFlag.CommsSabotaged;
+            addPlayer("1", 0, 0);
+            addPlayer("2", 1, 0);
+
+            assert.strictEqual(room.getAudibility(makeClient("1"), makeClient("2")).gain, 0);
+
+            room.options.commsSabotage = false;
+
+            assert.ok(room.getAudibility(makeClient("1"), makeClient("2")).gain > 0);
+        });
+
+        it("lets players on the cameras hear around the camera that they watch", () => {
+            room.state = GameState.Game;
+            room.settings.map = MapID.TheSkeld;
+            const watcher = addPlayer("1", 0, 0, PlayerFlag.OnCams);
+            // Next to the camera in the left of the map.
+            addPlayer("2", -17.8, -4);
+
+            watcher.camera = 0;
+            assert.ok(room.getAudibility(makeClient("1"), makeClient("2")).gain > 0);
+
+            watcher.camera = 1;
+            assert.strictEqual(room.getAudibility(makeClient("1"), makeClient("2")).gain, 0);
+
+            // Backends that don't know the camera use the one closest to the speaker.
+            watcher.camera = -1;
+            assert.ok(room.getAudibility(makeClient("1"), makeClient("2")).gain > 0);
+
+            watcher.flags = PlayerFlag.None;
+            assert.strictEqual(room.getAudibility(makeClient("1"), makeClient("2")).gain, 0);
+        });
+
+        it("lets everyone hear a player on a PA system during the game only", () => {
+            addPlayer("1", 0, 0);
+            addPlayer("2", 30, 0, PlayerFlag.OnPASystem);
+
+            assert.strictEqual(room.getAudibility(makeClient("1"), makeClient("2")).gain, 0);
+
+            room.state = GameState.Game;
+
+            assert.strictEqual(room.getAudibility(makeClient("1"), makeClient("2")).gain, 1);
+
+            room.options.paSystems = false;
+
+            assert.strictEqual(room.getAudibility(makeClient("1"), makeClient("2")).gain, 0);
+        });
+
+        it("carries the impostor radio to fellow impostors only", () => {
+            room.state = GameState.Game;
+            room.options.impostorRadio = true;
+            addPlayer("1", 0, 0, PlayerFlag.IsImpostor);
+            addPlayer("2", 30, 0, PlayerFlag.IsImpostor);
+            addPlayer("3", 1, 0);
+
+            const speaker = makeClient("1", { radio: true });
+
+            assert.strictEqual(room.getAudibility(makeClient("2"), speaker).gain, 1);
+            assert.strictEqual(room.getAudibility(makeClient("3"), speaker).gain, 0);
+        });
+    });
+
+    describe("what players see of each other", () => {
+        beforeEach(() => {
+            room.state = GameState.Game;
+            addPlayer("1", 0, 0);
+            addPlayer("2", 0, 0, PlayerFlag.IsImpostor).ventid = 3;
+            addPlayer("3", 0, 0, PlayerFlag.IsImpostor);
+            addPlayer("4", 0, 0, PlayerFlag.IsDead);
+        });
+
+        it("only shows the impostors and who is in a vent to other impostors", () => {
+            assert.strictEqual(room.getVisibleFlags(makeClient("1"), makeClient("2")), PlayerFlag.None);
+            assert.strictEqual(room.getVisibleVent(makeClient("1"), makeClient("2")), -1);
+
+            assert.strictEqual(room.getVisibleFlags(makeClient("3"), makeClient("2")), PlayerFlag.IsImpostor);
+            assert.strictEqual(room.getVisibleVent(makeClient("3"), makeClient("2")), 3);
+        });
+
+        it("shows players their own flags", () => {
+            assert.strictEqual(room.getVisibleFlags(makeClient("2"), makeClient("2")), PlayerFlag.IsImpostor);
+            assert.strictEqual(room.getVisibleFlags(makeClient("4"), makeClient("4")), PlayerFlag.IsDead);
+        });
+
+        it("only shows deaths to ghosts until the game reveals them in a meeting", () => {
+            assert.strictEqual(room.getVisibleFlags(makeClient("1"), makeClient("4")), PlayerFlag.None);
+
+            room.backendAdapter.emitGameState(GameState.Meeting);
+
+            assert.strictEqual(room.getVisibleFlags(makeClient("1"), makeClient("4")), PlayerFlag.IsDead);
+        });
+    });
+
+    describe("what spectators see", () => {
+        let spectator: Client;
+
+        beforeEach(() => {
+            room.state = GameState.Game;
+            addPlayer("1", 0, 0, PlayerFlag.IsImpostor).ventid = 3;
+            addPlayer("2", 1, 0, PlayerFlag.IsDead);
+            spectator = makeClient("", { spectator: true, playerId: undefined });
+        });
+
+        it("shows spectators who died but not who the impostors are or who is in a vent", () => {
+            assert.strictEqual(room.getVisibleFlags(spectator, makeClient("1")), PlayerFlag.None);
+            assert.strictEqual(room.getVisibleFlags(spectator, makeClient("2")), PlayerFlag.IsDead);
+            assert.strictEqual(room.getVisibleVent(spectator, makeClient("1")), -1);
+        });
+
+        it("shows spectators the impostors and vents when the host lets them", () => {
+            room.options.spectatorRoles = true;
+
+            assert.strictEqual(room.getVisibleFlags(spectator, makeClient("1")), PlayerFlag.IsImpostor);
+            assert.strictEqual(room.getVisibleVent(spectator, makeClient("1")), 3);
+        });
+    });
+
+    describe("name verification", () => {
+        // The BepInEx mod reports colours, so clients have to prove their name on it.
+        const bepinexModel = { backendType: BackendType.BepInEx, gameCode: "ABCDEF", token: "verification-test" };
+
+        beforeEach(async () => {
+            await room.destroy();
+            room = new Room(bepinexModel);
+            state.allRooms.set(room.key, room);
+        });
+
+        it("asks clients to change to a free colour and lets them in once their player does", async () => {
+            const [ client, socket ] = await join("Red", bepinexModel);
+
+            assert.strictEqual(client.verified, false);
+            assert.ok(client.verificationColor > -1);
+            assert.deepStrictEqual(socket.sentOf(ClientSocketEvents.SetVerification), [
+                { verified: false, color: client.verificationColor }
+            ]);
+
+            room.backendAdapter.emit(BackendEvent.PlayerColor, { id: "id:1", name: "Red", color: client.verificationColor });
+
+            assert.strictEqual(client.verified, true);
+            assert.strictEqual(client.playerId, "id:1");
+        });
+
+        it("doesn't let a player with another name prove a client's name", async () => {
+            const [ client ] = await join("Red", bepinexModel);
+
+            room.backendAdapter.emit(BackendEvent.PlayerColor, { id: "id:2", name: "Blue", color: client.verificationColor });
+
+            assert.strictEqual(client.verified, false);
+        });
+
+        it("only makes a client the host once it proved that it is the host's player", async () => {
+            const [ client ] = await join("Red", bepinexModel);
+            room.backendAdapter.emit(BackendEvent.PlayerColor, { id: "id:1", name: "Red", color: client.verificationColor + 1 });
+            room.backendAdapter.emit(BackendEvent.HostChange, { id: "id:1", name: "Red" });
+
+            assert.strictEqual(room.isHost(client), false);
+
+            room.backendAdapter.emit(BackendEvent.PlayerColor, { id: "id:1", name: "Red", color: client.verificationColor });
+
+            assert.strictEqual(room.isHost(client), true);
+        });
+
+        it("asks verified clients to prove their name again when the host turns it back on", async () => {
+            const [ client ] = await join("Red", bepinexModel);
+            room.backendAdapter.emit(BackendEvent.PlayerColor, { id: "id:1", name: "Red", color: client.verificationColor });
+
+            room.setOptions({ ...room.options, verifyNames: false });
+            room.setOptions({ ...room.options, verifyNames: true });
+
+            assert.strictEqual(client.verified, false);
+            assert.strictEqual(client.playerId, "id:1");
+        });
+
+        it("lets waiting clients in when the host turns it off", async () => {
+            const [ client ] = await join("Red", bepinexModel);
+
+            room.setOptions({ ...room.options, verifyNames: false });
+
+            assert.strictEqual(client.verified, true);
+        });
+    });
+
+    describe("chat", () => {
+        let aliveSocket: FakeSocket;
+        let ghostSocket: FakeSocket;
+
+        beforeEach(async () => {
+            [ , aliveSocket ] = await join("Red");
+            [ , ghostSocket ] = await join("Blue");
+            room.backendAdapter.emit(BackendEvent.PlayerName, { id: "id:1", name: "Red" });
+            room.backendAdapter.emit(BackendEvent.PlayerName, { id: "id:2", name: "Blue" });
+            room.backendAdapter.emitGameState(GameState.Game);
+            room.backendAdapter.emit(BackendEvent.PlayerFlags, { id: "id:2", name: "Blue", flags: PlayerFlag.IsDead, set: true });
+        });
+
+        function chatOf(socket: FakeSocket) {
+            return socket.sentOf<ChatMessage>(ClientSocketEvents.Chat).map(({ name, message, ghost }) => [ name, message, ghost ]);
+        }
+
+        it("only shows what ghosts say during a game to other ghosts", () => {
+            room.backendAdapter.emit(BackendEvent.Chat, { id: "id:2", name: "Blue", message: "it was green" });
+
+            assert.deepStrictEqual(chatOf(aliveSocket), []);
+            assert.deepStrictEqual(chatOf(ghostSocket), [ [ "Blue", "it was green", true ] ]);
+        });
+
+        it("shows what the living say to everyone", () => {
+            room.backendAdapter.emit(BackendEvent.Chat, { id: "id:1", name: "Red", message: "where?" });
+
+            assert.deepStrictEqual(chatOf(aliveSocket), [ [ "Red", "where?", false ] ]);
+            assert.deepStrictEqual(chatOf(ghostSocket), [ [ "Red", "where?", false ] ]);
+        });
+
+        it("shows what everyone says in the lobby to everyone", () => {
+            room.backendAdapter.emitGameState(GameState.Lobby);
+            room.backendAdapter.emit(BackendEvent.Chat, { id: "id:2", name: "Blue", message: "gg" });
+
+            assert.deepStrictEqual(chatOf(aliveSocket), [ [ "Blue", "gg", false ] ]);
+        });
+    });
+
+    describe("stream mix", () => {
+        let mixes = 0;
+
+        async function joinMix(token: string): Promise<[ Client, FakeSocket ]> {
+            const socket = new FakeSocket();
+            const client = new Client(socket.asSocket(), "mix-" + mixes++);
+
+            await client.joinMix(backendModel, token);
+            return [ client, socket ];
+        }
+
+        it("signs the mix token for the game that it was given for", () => {
+            const token = Room.getMixToken(backendModel);
+
+            assert.strictEqual(Room.isMixToken(backendModel, token), true);
+            assert.strictEqual(Room.isMixToken({ ...backendModel, gameCode: "GHIJKL" }, token), false);
+            assert.strictEqual(Room.isMixToken(backendModel, token.slice(0, -1)), false);
+        });
+
+        it("lets a mix with the token in as a hidden spectator", async () => {
+            const [ mix ] = await joinMix(Room.getMixToken(backendModel));
+
+            assert.ok(room.clients.includes(mix));
+            assert.strictEqual(mix.hidden, true);
+            assert.strictEqual(room.isSpectating(mix), true);
+        });
+
+        it("turns away mixes without the token", async () => {
+            const [ mix, socket ] = await joinMix("not the token");
+
+            assert.ok(!room.clients.includes(mix));
+            assert.strictEqual(socket.sentOf<{ fatal: boolean }>(ClientSocketEvents.Error)[0].fatal, true);
+        });
+
+        it("only lets a few mixes into a game at once", async () => {
+            const token = Room.getMixToken(backendModel);
+            await joinMix(token);
+            await joinMix(token);
+            const [ third, socket ] = await joinMix(token);
+
+            assert.ok(!room.clients.includes(third));
+            assert.match(socket.sentOf<{ err: string }>(ClientSocketEvents.Error)[0].err, /already has 2 stream mixes/);
+        });
+    });
+
+    describe("resuming a session", () => {
+        it("keeps a client that lost its connection in the room and tells the others that it is reconnecting", async () => {
+            const [ client, socket ] = await join("Red");
+            const [ , otherSocket ] = await join("Blue");
+
+            await socket.receive(ClientSocketEvents.Disconnect, undefined);
+
+            assert.ok(room.clients.includes(client));
+            assert.deepStrictEqual(otherSocket.sentOf(ClientSocketEvents.SetReconnectingOf), [
+                { uuid: client.uuid, reconnecting: true }
+            ]);
+
+            await client.destroy();
+        });
+
+        it("picks the session up on a new socket with the same uuid", async () => {
+            const [ client, socket ] = await join("Red");
+            const [ , otherSocket ] = await join("Blue");
+            await socket.receive(ClientSocketEvents.Disconnect, undefined);
+
+            const newSocket = new FakeSocket();
+            await client.resume(newSocket.asSocket());
+
+            assert.strictEqual(client.reconnecting, false);
+            assert.ok(room.clients.includes(client));
+            assert.deepStrictEqual(newSocket.sentOf(ClientSocketEvents.SetUuid), [ client.uuid ]);
+            assert.deepStrictEqual(otherSocket.sentOf(ClientSocketEvents.SetReconnectingOf).pop(), { uuid: client.uuid, reconnecting: false });
+            assert.deepStrictEqual(otherSocket.sentOf(ClientSocketEvents.RemoveClient), []);
+
+            // The old socket going away for good doesn't end the resumed session.
+            await socket.receive(ClientSocketEvents.Disconnect, undefined);
+            assert.strictEqual(client.reconnecting, false);
+        });
+
+        it("gives every client its own resume token", async () => {
+            const [ red, redSocket ] = await join("Red");
+            const [ blue ] = await join("Blue");
+
+            assert.notStrictEqual(red.resumeToken, blue.resumeToken);
+            assert.deepStrictEqual(redSocket.sentOf(ClientSocketEvents.SetResumeToken), [ { token: red.resumeToken } ]);
+        });
+
+        it("removes the client once the grace period runs out", async function () {
+            this.timeout(3000);
+
+            const [ client, socket ] = await join("Red");
+            const [ other ] = await join("Blue");
+            await socket.receive(ClientSocketEvents.Disconnect, undefined);
+
+            await new Promise(resolve => setTimeout(resolve, 1200));
+
+            assert.deepStrictEqual(room.clients, [ other ]);
+            assert.strictEqual(client.room, undefined);
+        });
+    });
+
+    describe("removeClient", () => {
+        it("still removes a client whose ban couldn't be saved and tells the host", async () => {
+            const bans = state.bans;
+            const failing: BanStore = {
+                getBans: () => [],
+                isBanned: () => false,
+                ban: () => Promise.reject(new Error("redis is down")),
+                unban: () => Promise.resolve(false)
+            };
+
+            const [ host, hostSocket ] = await join("Host");
+            const [ player ] = await join("Player");
+
+            host.playerId = room.hostId = "id:1";
+            state.bans = failing;
+
+            try {
+                await room.removeClient(player, true);
+            } finally {
+                state.bans = bans;
+            }
+
+            assert.deepStrictEqual(room.clients, [ host ]);
+            assert.deepStrictEqual(hostSocket.sentOf(ClientSocketEvents.Error), [
+                { err: "Couldn't save the ban on Player, they were only kicked.", fatal: false }
+            ]);
+        });
+    });
+});
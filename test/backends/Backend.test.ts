@@ -0,0 +1,92 @@
+import assert from "assert";
+import { MapID } from "@skeldjs/constant";
+
+import { PlayerPoseThrottle, PlayerRef } from "../../src/backends/Backend";
+import NoOpBackend from "../../src/backends/NoOpBackend";
+import { PlayerPose } from "../../src/Client";
+import { BackendEvent } from "../../src/types/enums/BackendEvents";
+import { GameState } from "../../src/types/enums/GameState";
+import { PlayerFlag } from "../../src/types/enums/PlayerFlags";
+
+describe("PlayerPoseThrottle", () => {
+    let emitted: [ PlayerRef, PlayerPose ][];
+    let throttle: PlayerPoseThrottle;
+
+    beforeEach(() => {
+        emitted = [];
+        throttle = new PlayerPoseThrottle((player, position) => emitted.push([ player, position ]), 300);
+    });
+
+    afterEach(() => {
+        throttle.cancel();
+    });
+
+    it("lets every player's first move through in the same window", () => {
+        throttle.push("Red", { x: 1, y: 1 });
+        throttle.push("Blue", { x: 2, y: 2 });
+        throttle.push({ id: 3, name: "Green" }, { x: 3, y: 3 });
+
+        assert.deepStrictEqual(emitted.map(([ player ]) => player), [ "Red", "Blue", { id: 3, name: "Green" } ]);
+    });
+
+    it("holds back a player's later moves until the window ends", async () => {
+        throttle = new PlayerPoseThrottle((player, position) => emitted.push([ player, position ]), 20);
+
+        throttle.push("Red", { x: 1, y: 1 });
+        throttle.push("Red", { x: 2, y: 2 });
+        throttle.push("Red", { x: 3, y: 3 });
+
+        assert.strictEqual(emitted.length, 1);
+
+        await new Promise(resolve => setTimeout(resolve, 40));
+
+        assert.deepStrictEqual(emitted.map(([ , position ]) => position), [ { x: 1, y: 1 }, { x: 3, y: 3 } ]);
+    });
+});
+
+describe("BackendAdapter", () => {
+    describe("PA systems", () => {
+        // The intercom in Mira HQ's communications room.
+        const Intercom = { x: 15.3, y: 3.8 };
+
+        let backend: NoOpBackend;
+        let flags: [ string, PlayerFlag, boolean ][];
+
+        beforeEach(() => {
+            backend = new NoOpBackend();
+            flags = [];
+
+            backend.on(BackendEvent.PlayerFlags, (payload: { id: string; flags: PlayerFlag; set: boolean }) => {
+                flags.push([ payload.id, payload.flags, payload.set ]);
+            });
+
+            backend.emitSettingsUpdate({ map: MapID.MiraHQ, crewmateVision: 1 });
+        });
+
+        it("flags players that walk up to a PA system during the game and unflags them when they walk away", () => {
+            backend.emitGameState(GameState.Game);
+            backend.emitPlayerPose({ id: 1, name: "Red" }, Intercom);
+            backend.emitPlayerPose({ id: 1, name: "Red" }, { x: Intercom.x + 1, y: Intercom.y });
+            backend.emitPlayerPose({ id: 1, name: "Red" }, { x: Intercom.x + 5, y: Intercom.y });
+
+            assert.deepStrictEqual(flags, [
+                [ "id:1", PlayerFlag.OnPASystem, true ],
+                [ "id:1", PlayerFlag.OnPASystem, false ]
+            ]);
+        });
+
+        it("ignores PA systems in the lobby", () => {
+            backend.emitPlayerPose({ id: 1, name: "Red" }, Intercom);
+
+            assert.deepStrictEqual(flags, []);
+        });
+
+        it("unflags everyone on a PA system when the game stops", () => {
+            backend.emitGameState(GameState.Game);
+            backend.emitPlayerPose({ id: 1, name: "Red" }, Intercom);
+            backend.emitGameState(GameState.Meeting);
+
+            assert.deepStrictEqual(flags[flags.length - 1], [ "id:1", PlayerFlag.OnPASystem, false ]);
+        });
+    });
+});
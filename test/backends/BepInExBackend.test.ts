@@ -0,0 +1,81 @@
+import assert from "assert";
+import { Socket } from "socket.io";
+
+import FakeSocket from "../FakeSocket";
+
+import BepInExBackend, { BepInExSocketEvents } from "../../src/backends/BepInExBackend";
+import { BackendType } from "../../src/types/models/Backends";
+import { BackendEvent } from "../../src/types/enums/BackendEvents";
+
+const Secret = "a secret that only the mod knows, long enough";
+
+function authenticate(auth: Record<string, unknown>): Error|undefined {
+    let error: Error|undefined;
+    BepInExBackend.authenticate({ handshake: { auth } } as unknown as Socket, err => error = err);
+    return error;
+}
+
+describe("BepInExBackend", () => {
+    let backend: BepInExBackend;
+
+    beforeEach(() => {
+        backend = new BepInExBackend({
+            backendType: BackendType.BepInEx,
+            gameCode: "ABCDEF",
+            token: BepInExBackend.getToken(Secret)
+        });
+        backend.initialize();
+    });
+
+    afterEach(() => {
+        backend.destroy();
+    });
+
+    it("lets the mod connect with its secret", () => {
+        assert.strictEqual(authenticate({ secret: Secret }), undefined);
+    });
+
+    it("doesn't let web users connect as the mod with the token that they joined with", () => {
+        assert.ok(authenticate({ secret: backend.backendModel.token }));
+        assert.ok(authenticate({ token: backend.backendModel.token }));
+    });
+
+    it("turns away short secrets", () => {
+        assert.ok(authenticate({ secret: "short" }));
+    });
+
+    describe("events from the mod", () => {
+        let socket: FakeSocket;
+        let emitted: [ string, unknown ][];
+
+        beforeEach(() => {
+            socket = new FakeSocket();
+            emitted = [];
+
+            for (const event of [ BackendEvent.PlayerFlags, BackendEvent.PlayerVent, BackendEvent.GameState, BackendEvent.SettingsUpdate ]) {
+                backend.on(event, payload => emitted.push([ event, payload ]));
+            }
+
+            backend.attach(socket.asSocket());
+        });
+
+        it("passes on events that have the shape they need", async () => {
+            await socket.receive(BepInExSocketEvents.SetImpostors, { names: [ "Red" ] });
+            await socket.receive(BepInExSocketEvents.PlayerVent, { name: "Red", ventid: 3 });
+
+            assert.deepStrictEqual(emitted.map(([ event ]) => event), [ BackendEvent.PlayerFlags, BackendEvent.PlayerVent ]);
+        });
+
+        it("drops events that are missing fields or have the wrong types", async () => {
+            await socket.receive(BepInExSocketEvents.SetImpostors, {});
+            await socket.receive(BepInExSocketEvents.SetImpostors, { names: "Red" });
+            await socket.receive(BepInExSocketEvents.PlayerVent, { name: "Red", ventid: "3" });
+            await socket.receive(BepInExSocketEvents.PlayerMove, { name: "Red", position: { x: NaN, y: 0 } });
+            await socket.receive(BepInExSocketEvents.GameState, { state: "Lobby" });
+            await socket.receive(BepInExSocketEvents.SettingsUpdate, { settings: null });
+            await socket.receive(BepInExSocketEvents.PlayerDeath, null);
+
+            assert.deepStrictEqual(emitted, []);
+        });
+    });
+});
@@ -0,0 +1,57 @@
+import assert from "assert";
+
+import NodePolusBackend, { NodePolusSocketEvents } from "../../src/backends/NodePolusBackend";
+import { BackendType } from "../../src/types/models/Backends";
+import { BackendEvent } from "../../src/types/enums/BackendEvents";
+
+describe("NodePolusBackend", () => {
+    let backend: NodePolusBackend;
+    let emitted: [ string, unknown ][];
+
+    beforeEach(() => {
+        backend = new NodePolusBackend({
+            backendType: BackendType.NodePolus,
+            gameCode: "ABCDEF",
+            ip: "127.0.0.1"
+        });
+        emitted = [];
+
+        for (const event of [ BackendEvent.PlayerName, BackendEvent.PlayerFlags, BackendEvent.PlayerCamera, BackendEvent.Chat ]) {
+            backend.on(event, payload => emitted.push([ event, payload ]));
+        }
+    });
+
+    it("passes on messages that have the shape they need", () => {
+        backend.handleMessage({ type: NodePolusSocketEvents.PlayerName, data: { id: 1, name: "Red" } });
+        backend.handleMessage({ type: NodePolusSocketEvents.SetImpostors, data: { players: [ { id: 1, name: "Red" } ] } });
+        backend.handleMessage({ type: NodePolusSocketEvents.CameraChange, data: { id: 1, name: "Red", camera: 2 } });
+
+        assert.deepStrictEqual(emitted.map(([ event ]) => event), [ BackendEvent.PlayerName, BackendEvent.PlayerFlags, BackendEvent.PlayerCamera ]);
+    });
+
+    it("tells apart players that share a name by their id", () => {
+        backend.handleMessage({ type: NodePolusSocketEvents.ChatMessage, data: { id: 1, name: "Red", message: "hi" } });
+        backend.handleMessage({ type: NodePolusSocketEvents.ChatMessage, data: { id: 2, name: "Red", message: "hi" } });
+
+        const ids = emitted.map(([ , payload ]) => (payload as { id: string }).id);
+        assert.strictEqual(new Set(ids).size, 2);
+    });
+
+    it("takes players off the cameras when they leave them", () => {
+        backend.handleMessage({ type: NodePolusSocketEvents.CamerasLeave, data: { id: 1, name: "Red" } });
+
+        assert.deepStrictEqual(emitted.map(([ event ]) => event), [ BackendEvent.PlayerFlags, BackendEvent.PlayerCamera ]);
+    });
+
+    it("drops messages that are missing fields or have the wrong types", () => {
+        backend.handleMessage(null);
+        backend.handleMessage({ type: "Unknown", data: {} });
+        backend.handleMessage({ type: NodePolusSocketEvents.PlayerName });
+        backend.handleMessage({ type: NodePolusSocketEvents.PlayerName, data: { name: "Red" } });
+        backend.handleMessage({ type: NodePolusSocketEvents.SetImpostors, data: { names: [ "Red" ] } });
+        backend.handleMessage({ type: NodePolusSocketEvents.CameraChange, data: { id: 1, name: "Red", camera: "2" } });
+        backend.handleMessage({ type: NodePolusSocketEvents.ChatMessage, data: { id: 1, name: "", message: "hi" } });
+
+        assert.deepStrictEqual(emitted, []);
+    });
+});
@@ -0,0 +1,63 @@
+import assert from "assert";
+
+import GameRecorder from "../../src/GameRecorder";
+import ReplayBackend from "../../src/backends/ReplayBackend";
+import { BackendEvent } from "../../src/types/enums/BackendEvents";
+import { BackendType } from "../../src/types/models/Backends";
+
+/**
+ * Plays a recording and resolves with the events that it emitted once it reports an error,
+ * which a replay also does when it finishes.
+ */
+function play(recording: string): Promise<{ events: [ BackendEvent, unknown ][]; error: { err: string; fatal: boolean } }> {
+    const backend = new ReplayBackend({ backendType: BackendType.Replay, gameCode: "ABCDEF", recording });
+    const events: [ BackendEvent, unknown ][] = [];
+
+    return new Promise(resolve => {
+        for (const event of [ BackendEvent.PlayerColor, BackendEvent.Chat ]) {
+            backend.on(event, payload => events.push([ event, payload ]));
+        }
+
+        backend.on(BackendEvent.Error, error => {
+            backend.destroy();
+            resolve({ events, error });
+        });
+
+        backend.initialize();
+    });
+}
+
+describe("ReplayBackend", () => {
+    it("plays the recorded events in order and then finishes", async () => {
+        const recorder = new GameRecorder("GHIJKL", BackendType.NoOp);
+
+        recorder.record(BackendEvent.PlayerColor, { id: "id:1", name: "Red", color: 0 });
+        recorder.record(BackendEvent.Chat, { id: "id:1", name: "Red", message: "hi" });
+        await recorder.stop();
+
+        const { events, error } = await play(recorder.name);
+
+        assert.deepStrictEqual(events, [
+            [ BackendEvent.PlayerColor, { id: "id:1", name: "Red", color: 0 } ],
+            [ BackendEvent.Chat, { id: "id:1", name: "Red", message: "hi" } ]
+        ]);
+        assert.strictEqual(error.fatal, false);
+    });
+
+    it("refuses to play a recording of a replay", async () => {
+        const recorder = new GameRecorder("MNOPQR", BackendType.Replay);
+        recorder.record(BackendEvent.Chat, { id: "id:1", name: "Red", message: "hi" });
+        await recorder.stop();
+
+        const { events, error } = await play(recorder.name);
+
+        assert.deepStrictEqual(events, []);
+        assert.strictEqual(error.fatal, true);
+    });
+
+    it("fails when there is no such recording", async () => {
+        const { error } = await play("STUVWX-missing");
+
+        assert.strictEqual(error.fatal, true);
+    });
+});
@@ -0,0 +1,48 @@
+import assert from "assert";
+
+import { BanModel, getClientAddress, matchesBan } from "../../src/bans/BanStore";
+
+describe("matchesBan", () => {
+    const ban: BanModel = {
+        id: "ban",
+        name: "Red",
+        signals: { address: "203.0.113.7", clientId: "client" },
+        bannedAt: 0
+    };
+
+    it("matches the banned client id under any name and address", () => {
+        assert.strictEqual(matchesBan(ban, "Blue", { address: "198.51.100.1", clientId: "client" }), true);
+    });
+
+    it("matches the banned address along with the banned name", () => {
+        assert.strictEqual(matchesBan(ban, " red", { address: "203.0.113.7", clientId: "other" }), true);
+    });
+
+    it("never matches the banned address alone", () => {
+        assert.strictEqual(matchesBan(ban, "Blue", { address: "203.0.113.7", clientId: "other" }), false);
+        assert.strictEqual(matchesBan(ban, "Blue", { address: "203.0.113.7" }), false);
+    });
+
+    it("ignores missing signals", () => {
+        assert.strictEqual(matchesBan({ ...ban, signals: {} }, "Red", {}), false);
+    });
+});
+
+describe("getClientAddress", () => {
+    it("ignores the forwarded-for header without trusted proxies", () => {
+        assert.strictEqual(getClientAddress("10.0.0.1", "203.0.113.7", 0), "10.0.0.1");
+    });
+
+    it("takes the address that the trusted proxy was connected from", () => {
+        assert.strictEqual(getClientAddress("10.0.0.1", "203.0.113.7", 1), "203.0.113.7");
+    });
+
+    it("ignores addresses that the client added to the header itself", () => {
+        assert.strictEqual(getClientAddress("10.0.0.1", "198.51.100.1, 203.0.113.7", 1), "203.0.113.7");
+        assert.strictEqual(getClientAddress("10.0.0.2", "198.51.100.1, 203.0.113.7, 10.0.0.1", 2), "203.0.113.7");
+    });
+
+    it("stops at the first address when there are fewer hops than trusted proxies", () => {
+        assert.strictEqual(getClientAddress("10.0.0.1", undefined, 2), "10.0.0.1");
+    });
+});
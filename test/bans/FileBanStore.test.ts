@@ -0,0 +1,43 @@
+import assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import FileBanStore from "../../src/bans/FileBanStore";
+
+describe("FileBanStore", () => {
+    let filename: string;
+
+    beforeEach(async () => {
+        filename = path.join(await fs.promises.mkdtemp(path.join(os.tmpdir(), "auproximity-bans-")), "bans.json");
+    });
+
+    afterEach(async () => {
+        await fs.promises.rm(path.dirname(filename), { recursive: true, force: true });
+    });
+
+    it("keeps bans to each scope", async () => {
+        const store = new FileBanStore(filename);
+
+        await store.ban("room", "Red", { clientId: "client" });
+
+        assert.strictEqual(store.isBanned("room", "Red", { clientId: "client" }), true);
+        assert.strictEqual(store.isBanned("other room", "Red", { clientId: "client" }), false);
+    });
+
+    it("reads the bans back from the file", async () => {
+        const ban = await new FileBanStore(filename).ban("room", "Red", { clientId: "client" });
+
+        assert.deepStrictEqual(new FileBanStore(filename).getBans("room"), [ ban ]);
+    });
+
+    it("removes bans by id", async () => {
+        const store = new FileBanStore(filename);
+        const ban = await store.ban("room", "Red", { clientId: "client" });
+
+        assert.strictEqual(await store.unban("room", "missing"), false);
+        assert.strictEqual(await store.unban("room", ban.id), true);
+        assert.strictEqual(store.isBanned("room", "Red", { clientId: "client" }), false);
+        assert.deepStrictEqual(new FileBanStore(filename).getBans("room"), []);
+    });
+});
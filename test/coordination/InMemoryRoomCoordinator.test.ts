@@ -0,0 +1,68 @@
+import assert from "assert";
+import { EventEmitter } from "events";
+
+import InMemoryRoomCoordinator, { InMemoryCoordinatorHub } from "../../src/coordination/InMemoryRoomCoordinator";
+import { RoomMessage, RoomMessageType } from "../../src/coordination/RoomCoordinator";
+
+describe("InMemoryRoomCoordinator", () => {
+    let hub: InMemoryCoordinatorHub;
+    let first: InMemoryRoomCoordinator;
+    let second: InMemoryRoomCoordinator;
+
+    beforeEach(() => {
+        hub = { owners: new Map, messages: new EventEmitter };
+        first = new InMemoryRoomCoordinator(hub);
+        second = new InMemoryRoomCoordinator(hub);
+    });
+
+    it("lets only one process own a room", async () => {
+        assert.strictEqual(await first.claim("room"), true);
+        assert.strictEqual(await second.claim("room"), false);
+        assert.strictEqual(await first.claim("room"), true);
+        assert.strictEqual(await second.claim("other room"), true);
+    });
+
+    it("lets another process take a room over once the owner releases it", async () => {
+        await first.claim("room");
+        await second.release("room");
+
+        assert.strictEqual(await second.claim("room"), false);
+
+        await first.release("room");
+
+        assert.strictEqual(await second.claim("room"), true);
+    });
+
+    it("relays messages to the other processes in the room", () => {
+        const received: RoomMessage[] = [];
+        const message: RoomMessage = { type: RoomMessageType.Leave, uuid: "client", ban: false };
+
+        first.subscribe("room", received.push.bind(received));
+        second.subscribe("room", received.push.bind(received));
+        second.subscribe("other room", () => assert.fail("A message was relayed to another room."));
+
+        first.publish("room", message);
+
+        assert.deepStrictEqual(received, [ message ]);
+    });
+
+    it("stops relaying messages to a process that unsubscribed", () => {
+        const received: RoomMessage[] = [];
+
+        second.subscribe("room", received.push.bind(received));
+        second.unsubscribe("room");
+        first.publish("room", { type: RoomMessageType.Sync });
+
+        assert.deepStrictEqual(received, []);
+    });
+
+    it("keeps a single listener for each room", () => {
+        const received: string[] = [];
+
+        second.subscribe("room", () => received.push("old"));
+        second.subscribe("room", () => received.push("new"));
+        first.publish("room", { type: RoomMessageType.Sync });
+
+        assert.deepStrictEqual(received, [ "new" ]);
+    });
+});
@@ -0,0 +1,10 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * Sets the environment that src/consts.ts reads, which has to happen before any test imports it.
+ */
+process.env.RECORDINGS_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "auproximity-test-recordings-"));
+// In seconds, short enough that tests can wait for it to run out.
+process.env.RESUME_GRACE_PERIOD = "1";
@@ -0,0 +1,22 @@
+import os from "os";
+import path from "path";
+
+import FileBanStore from "../src/bans/FileBanStore";
+import InMemoryRoomCoordinator from "../src/coordination/InMemoryRoomCoordinator";
+import { AUProximityState } from "../src/types/models/AUProximityState";
+
+/**
+ * Stands in for the state that src/main.ts exports, as importing main.ts starts the server.
+ * Tests of modules that use the state import this before them.
+ */
+export const state: AUProximityState = {
+    allClients: [],
+    allRooms: new Map,
+    isClosing: false,
+    bans: new FileBanStore(path.join(os.tmpdir(), "auproximity-test-bans-" + process.pid + ".json")),
+    coordinator: new InMemoryRoomCoordinator
+};
+
+const main = require.resolve("../src/main");
+
+require.cache[main] = { id: main, filename: main, loaded: true, exports: { state } } as unknown as NodeModule;
@@ -0,0 +1,42 @@
+import assert from "assert";
+import { MapID } from "@skeldjs/constant";
+
+import { poseCollide } from "../../../src/types/constants/ColliderMaps";
+
+type Position = { x: number; y: number };
+
+// Vents and cameras are always somewhere that players can walk, so they make good positions to test with.
+const Walls: [ string, MapID, Position, Position ][] = [
+    [ "The Skeld, Cafeteria to Weapons", MapID.TheSkeld, { x: 0, y: 5 }, { x: 9, y: 1 } ],
+    [ "The Skeld, MedBay to Cafeteria", MapID.TheSkeld, { x: -9, y: -4 }, { x: -5, y: 2 } ],
+    [ "Mira HQ, Reactor to Launchpad", MapID.MiraHQ, { x: 0.48, y: 10.7 }, { x: -6.18, y: 3.56 } ],
+    [ "Mira HQ, Laboratory to Office", MapID.MiraHQ, { x: 11.61, y: 13.82 }, { x: 13.28, y: 20.13 } ],
+    [ "Mira HQ, Admin to Greenhouse", MapID.MiraHQ, { x: 22.39, y: 17.23 }, { x: 17.85, y: 25.23 } ],
+    [ "Mira HQ, MedBay to Balcony", MapID.MiraHQ, { x: 15.41, y: -1.82 }, { x: 23.77, y: -1.94 } ]
+];
+
+const Openings: [ string, MapID, Position, Position ][] = [
+    [ "The Skeld, across Cafeteria", MapID.TheSkeld, { x: -1, y: 2 }, { x: 2, y: 4 } ],
+    [ "Mira HQ, Cafeteria to Balcony", MapID.MiraHQ, { x: 23.9, y: 7.18 }, { x: 23.77, y: -1.94 } ],
+    [ "Mira HQ, Locker Room to Decontamination", MapID.MiraHQ, { x: 4.29, y: 0.53 }, { x: 6.83, y: 3.14 } ]
+];
+
+describe("poseCollide", () => {
+    for (const [ name, map, p1, p2 ] of Walls) {
+        it("has a wall in the way from " + name, () => {
+            assert.strictEqual(poseCollide(map, p1, p2), true);
+            assert.strictEqual(poseCollide(map, p2, p1), true);
+        });
+    }
+
+    for (const [ name, map, p1, p2 ] of Openings) {
+        it("has nothing in the way " + name, () => {
+            assert.strictEqual(poseCollide(map, p1, p2), false);
+        });
+    }
+
+    it("mirrors The Skeld for the April Fools version", () => {
+        assert.strictEqual(poseCollide(MapID.AprilFoolsTheSkeld, { x: 0, y: 5 }, { x: -9, y: 1 }), true);
+        assert.strictEqual(poseCollide(MapID.AprilFoolsTheSkeld, { x: 1, y: 2 }, { x: -2, y: 4 }), false);
+    });
+});
@@ -0,0 +1,63 @@
+import assert from "assert";
+
+import { isValidHostOptions, MaxFalloff } from "../../src/util/hostOptions";
+import { DefaultAudioRoutes } from "../../src/types/constants/AudioRoutes";
+import { AudioRole, AudioRoute } from "../../src/types/enums/AudioRoutes";
+import { GameState } from "../../src/types/enums/GameState";
+import { AudioRoutes, HostOptions } from "../../src/types/models/ClientOptions";
+
+function getOptions(routes: AudioRoutes = DefaultAudioRoutes): HostOptions {
+    return {
+        falloff: 5,
+        falloffVision: false,
+        colliders: false,
+        paSystems: true,
+        commsSabotage: true,
+        meetingsCommsSabotage: true,
+        impostorRadio: false,
+        relay: false,
+        verifyNames: true,
+        spectatorRoles: false,
+        routes
+    };
+}
+
+// Copies the default routes with a single route changed.
+function withRoute(state: GameState, listener: AudioRole, speaker: AudioRole, route: AudioRoute): AudioRoutes {
+    const routes = JSON.parse(JSON.stringify(DefaultAudioRoutes)) as AudioRoutes;
+    routes[state][listener][speaker] = route;
+    return routes;
+}
+
+describe("isValidHostOptions", () => {
+    it("accepts the default options", () => {
+        assert.strictEqual(isValidHostOptions(getOptions()), true);
+    });
+
+    it("refuses falloffs outside of the range that the host can pick from", () => {
+        assert.strictEqual(isValidHostOptions({ ...getOptions(), falloff: MaxFalloff + 1 }), false);
+        assert.strictEqual(isValidHostOptions({ ...getOptions(), falloff: NaN }), false);
+    });
+
+    it("refuses routing tables that are missing a route", () => {
+        const routes = JSON.parse(JSON.stringify(DefaultAudioRoutes));
+        delete routes[GameState.Meeting][AudioRole.Dead];
+
+        assert.strictEqual(isValidHostOptions(getOptions(routes)), false);
+        assert.strictEqual(isValidHostOptions(getOptions(withRoute(GameState.Game, AudioRole.Alive, AudioRole.Alive, "loud" as AudioRoute))), false);
+    });
+
+    it("lets impostors hear each other differently", () => {
+        const routes = withRoute(GameState.Game, AudioRole.Impostor, AudioRole.Impostor, AudioRoute.Global);
+
+        assert.strictEqual(isValidHostOptions(getOptions(routes)), true);
+    });
+
+    it("refuses routes that would let anyone but the impostors tell who the impostors are", () => {
+        for (const listener of [ AudioRole.Alive, AudioRole.Dead ]) {
+            const routes = withRoute(GameState.Game, listener, AudioRole.Impostor, AudioRoute.Muted);
+
+            assert.strictEqual(isValidHostOptions(getOptions(routes)), false);
+        }
+    });
+});